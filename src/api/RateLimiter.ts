@@ -0,0 +1,49 @@
+export interface RateLimitOptions {
+  requestsPerSecond: number;
+  burst: number;
+}
+
+/**
+ * Token bucket that spaces out outgoing requests. Each request takes one token;
+ * tokens refill continuously at `requestsPerSecond` up to `burst`.
+ */
+export class TokenBucket {
+  private tokens: number;
+  private readonly burst: number;
+  private lastRefill = Date.now();
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(private readonly options: RateLimitOptions) {
+    // A bucket that cannot hold a whole token would leave every request in debt
+    this.burst = Math.max(options.burst, 1);
+    this.tokens = this.burst;
+  }
+
+  acquire(): Promise<void> {
+    if (this.options.requestsPerSecond <= 0) {
+      return Promise.resolve();
+    }
+
+    // Chain callers so tokens are handed out in arrival order
+    const next = this.queue.then(() => this.take());
+    this.queue = next.catch(() => undefined);
+    return next;
+  }
+
+  private async take(): Promise<void> {
+    this.refill();
+    if (this.tokens < 1) {
+      const waitMs = ((1 - this.tokens) / this.options.requestsPerSecond) * 1000;
+      await new Promise(resolve => setTimeout(resolve, Math.ceil(waitMs)));
+      this.refill();
+    }
+    this.tokens -= 1;
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    const elapsedSeconds = (now - this.lastRefill) / 1000;
+    this.tokens = Math.min(this.burst, this.tokens + elapsedSeconds * this.options.requestsPerSecond);
+    this.lastRefill = now;
+  }
+} 
\ No newline at end of file
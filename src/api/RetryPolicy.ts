@@ -0,0 +1,61 @@
+import { AxiosError } from 'axios';
+
+export interface RetryOptions {
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+const RETRYABLE_STATUS_CODES = new Set([408, 425, 429, 500, 502, 503, 504]);
+const IDEMPOTENT_METHODS = new Set(['get', 'head', 'options']);
+
+export class RetryPolicy {
+  constructor(private readonly options: RetryOptions) {}
+
+  get maxAttempts(): number {
+    return this.options.maxRetries + 1;
+  }
+
+  shouldRetry(error: AxiosError, attempt: number): boolean {
+    if (attempt >= this.maxAttempts) return false;
+
+    const method = (error.config?.method ?? 'get').toLowerCase();
+    if (!IDEMPOTENT_METHODS.has(method)) return false;
+
+    // Network failures and timeouts never reached the museum, so they are safe to repeat
+    if (!error.response) return error.code !== AxiosError.ERR_CANCELED;
+
+    return RETRYABLE_STATUS_CODES.has(error.response.status);
+  }
+
+  /**
+   * Delay before the next attempt: the server's Retry-After when present,
+   * otherwise exponential backoff with full jitter. Returns null when the
+   * server asks us to wait longer than we are willing to.
+   */
+  getDelayMs(error: AxiosError, attempt: number): number | null {
+    const retryAfter = RetryPolicy.parseRetryAfter(error.response?.headers?.['retry-after']);
+    if (retryAfter !== null) {
+      return retryAfter <= this.options.maxDelayMs ? retryAfter : null;
+    }
+
+    const exponential = Math.min(this.options.maxDelayMs, this.options.baseDelayMs * 2 ** (attempt - 1));
+    return Math.round(Math.random() * exponential);
+  }
+
+  static parseRetryAfter(header: unknown): number | null {
+    if (typeof header !== 'string' || header.trim() === '') return null;
+
+    const seconds = Number(header);
+    if (Number.isFinite(seconds)) {
+      return Math.max(0, seconds * 1000);
+    }
+
+    const date = Date.parse(header);
+    if (!Number.isNaN(date)) {
+      return Math.max(0, date - Date.now());
+    }
+
+    return null;
+  }
+} 
\ No newline at end of file
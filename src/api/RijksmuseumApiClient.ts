@@ -1,63 +1,206 @@
-import axios, { AxiosInstance, AxiosError } from 'axios';
+import axios, { AxiosInstance, AxiosError, InternalAxiosRequestConfig } from 'axios';
+import { createHash } from 'crypto';
 import { 
   ArtworkSearchResult, 
+  ArtworkSearchResponse,
+  SearchFacets,
   ArtworkDetails, 
   ImageTiles, 
   UserSet, 
   TimelineArtwork,
+  ArtistTimeline,
+  TimelineMaker,
+  ArtistCandidate,
+  ArtistResolution,
   SearchArtworkArguments,
+  SearchAllArtworksArguments,
+  SearchAllArtworksResult,
   GetUserSetsArguments,
   UserSetsResponse,
   GetUserSetDetailsArguments,
-  UserSetDetails
+  UserSetDetails,
+  BilingualArtworkDetails,
+  BilingualSearchResponse,
+  BilingualSearchResult,
+  PostFilter,
+  PostFilteredSearchResponse,
+  PostFilteredSearchResult
 } from '../types.js';
+import { ResponseCache, CacheEndpoint, CacheStats } from '../cache/ResponseCache.js';
+import { RetryPolicy, RetryOptions } from './RetryPolicy.js';
+import { TokenBucket, RateLimitOptions } from './RateLimiter.js';
+import { LocalCollectionIndex } from '../localIndex/LocalCollectionIndex.js';
+import { matchArtistName, normalizeArtistName } from './artistNames.js';
+import { buildPhases, computeAge, describeDating, parseYear } from './timeline.js';
+import { mapWithConcurrency } from '../utils/mapWithConcurrency.js';
+import { mergeBilingual } from './bilingual.js';
+import { describeIconclass } from '../iconclass/iconclass.js';
+import { explainSizeMatch, parseDimensions } from './dimensions.js';
+import { centuryOf, explainDateMatch } from './dateRanges.js';
+import { RijksmuseumApiError } from '../error/RijksmuseumApiError.js';
+import { ServerMetrics } from '../observability/ServerMetrics.js';
+import { logger } from '../observability/Logger.js';
+
+export const DEFAULT_BASE_URL = 'https://www.rijksmuseum.nl/api';
+
+export interface ApiClientOptions {
+  baseUrl?: string;
+  cache?: ResponseCache;
+  retry?: RetryOptions;
+  rateLimit?: RateLimitOptions;
+  index?: LocalCollectionIndex;
+  metrics?: ServerMetrics;
+}
+
+type RetryableRequestConfig = InternalAxiosRequestConfig & { attempt?: number };
 
 export class RijksmuseumApiClient {
   private axiosInstance: AxiosInstance;
-  private readonly BASE_URL = 'https://www.rijksmuseum.nl/api';
   private readonly ENDPOINTS = {
     COLLECTION: 'collection'
   };
-
-  constructor(apiKey: string) {
-    if (!apiKey) {
+  private readonly MAX_RESULT_WINDOW = 10000;
+  // Candidates scoring below this are unrelated names that merely share a search hit
+  private readonly MIN_ARTIST_SIMILARITY = 0.35;
+  // Post-filtering fetches details for every result, so it reads a bounded number of pages per call
+  private readonly POST_FILTER_MAX_PAGES = 5;
+  private readonly cache?: ResponseCache;
+  // Part of every cache key, so a persisted cache never answers one base URL or API key with responses fetched for another
+  private readonly cacheSource: string;
+  private readonly retryPolicy: RetryPolicy;
+  private readonly rateLimiter?: TokenBucket;
+  private readonly index?: LocalCollectionIndex;
+  private readonly metrics?: ServerMetrics;
+
+  constructor(apiKey: string, options: ApiClientOptions = {}) {
+    const baseUrl = options.baseUrl ?? DEFAULT_BASE_URL;
+    if (!apiKey && baseUrl === DEFAULT_BASE_URL) {
       throw new Error('API key is required for Rijksmuseum API');
     }
 
+    this.cache = options.cache;
+    // The key itself is hashed, as cache keys are written to the cache file
+    this.cacheSource = `${baseUrl.replace(/\/+$/, '')}#${createHash('sha256').update(apiKey).digest('hex').slice(0, 12)}`;
+    this.index = options.index;
+    this.metrics = options.metrics;
+    this.retryPolicy = new RetryPolicy(options.retry ?? { maxRetries: 0, baseDelayMs: 0, maxDelayMs: 0 });
+    if (options.rateLimit) {
+      this.rateLimiter = new TokenBucket(options.rateLimit);
+    }
+
     this.axiosInstance = axios.create({
-      baseURL: this.BASE_URL,
+      baseURL: baseUrl,
       params: {
-        key: apiKey,
+        // Stand-in servers may run without a key
+        ...(apiKey ? { key: apiKey } : {}),
         format: 'json'
       }
     });
 
-    // Add response interceptor for error handling
+    // Wait for a rate limit token before every attempt, including retries
+    this.axiosInstance.interceptors.request.use(async config => {
+      const waitStartedAt = Date.now();
+      await this.rateLimiter?.acquire();
+      this.metrics?.recordRateLimitWait(Date.now() - waitStartedAt);
+      return config;
+    });
+
+    // Add response interceptor for retries and error handling
     this.axiosInstance.interceptors.response.use(
       response => response,
-      (error: AxiosError) => {
+      async (error: AxiosError) => {
+        const config = error.config as RetryableRequestConfig | undefined;
+        const attempt = config?.attempt ?? 1;
+
+        if (config && this.retryPolicy.shouldRetry(error, attempt)) {
+          const delayMs = this.retryPolicy.getDelayMs(error, attempt);
+          if (delayMs !== null) {
+            this.metrics?.recordRetry();
+            logger.warn('Retrying Rijksmuseum API request', { url: config.url, attempt, status: error.response?.status ?? null, delayMs });
+            await new Promise(resolve => setTimeout(resolve, delayMs));
+            config.attempt = attempt + 1;
+            return this.axiosInstance.request(config);
+          }
+        }
+
+        const attempts = attempt > 1 ? ` (after ${attempt} attempts)` : '';
         if (error.response) {
           // The request was made and the server responded with a status code
           // that falls out of the range of 2xx
-          throw new Error(`Rijksmuseum API error: ${error.response.status} - ${error.response.statusText}`);
+          throw new RijksmuseumApiError(`Rijksmuseum API error: ${error.response.status} - ${error.response.statusText}${attempts}`, 'status', error.response.status);
         } else if (error.request) {
           // The request was made but no response was received
-          throw new Error('No response received from Rijksmuseum API');
+          throw new RijksmuseumApiError(`No response received from Rijksmuseum API${attempts}`, 'noResponse');
         } else {
           // Something happened in setting up the request that triggered an Error
-          throw new Error(`Error making request to Rijksmuseum API: ${error.message}`);
+          throw new RijksmuseumApiError(`Error making request to Rijksmuseum API: ${error.message}`, 'request');
         }
       }
     );
   }
 
-  async searchArtworks(params: SearchArtworkArguments): Promise<ArtworkSearchResult[]> {
+  private async cachedGet<T>(
+    endpoint: CacheEndpoint,
+    culture: string,
+    url: string,
+    params: Record<string, any>,
+    validate: (data: any) => T,
+    fresh: boolean = false
+  ): Promise<T> {
+    const key = ResponseCache.buildKey(endpoint, culture, { source: this.cacheSource, url, ...params });
+    // Fresh reads skip the lookup but still refresh the cached entry
+    const cached = fresh ? undefined : this.cache?.get<T>(key);
+    if (!fresh && this.cache) {
+      this.metrics?.recordCacheLookup(endpoint, cached !== undefined);
+    }
+    if (cached !== undefined) {
+      return cached;
+    }
+
+    const startedAt = Date.now();
+    let response;
+    try {
+      response = await this.axiosInstance.get(url, { params });
+    } catch (error) {
+      this.recordUpstreamRequest(endpoint, url, startedAt, error);
+      throw error;
+    }
+    this.recordUpstreamRequest(endpoint, url, startedAt);
+
+    // Only validated responses are cached, so a malformed payload is never replayed
+    const data = validate(response.data);
+    this.cache?.set(endpoint, key, data);
+    return data;
+  }
+
+  private recordUpstreamRequest(endpoint: CacheEndpoint, url: string, startedAt: number, error?: unknown): void {
+    const durationMs = Date.now() - startedAt;
+    this.metrics?.recordUpstreamRequest(endpoint, durationMs, error !== undefined);
+    logger.debug('Rijksmuseum API request', { endpoint, url, durationMs, ...(error !== undefined ? { error } : {}) });
+  }
+
+  getCacheStats(): CacheStats | null {
+    return this.cache?.getStats() ?? null;
+  }
+
+  clearCache(endpoint?: CacheEndpoint): number {
+    return this.cache?.clear(endpoint) ?? 0;
+  }
+
+  async searchArtworks(params: SearchArtworkArguments, options: { fresh?: boolean } = {}): Promise<ArtworkSearchResponse> {
+    if (params.resolveMaker && params.involvedMaker) {
+      const { resolveMaker, ...rest } = params;
+      const name = await this.resolveMakerName(params.involvedMaker, params.culture ?? 'en');
+      const response = await this.searchArtworks({ ...rest, involvedMaker: name }, options);
+      return name === params.involvedMaker ? response : { ...response, resolvedMaker: { input: params.involvedMaker, name } };
+    }
+
     try {
       // Validate page and pageSize constraints
       const p = params.p ?? 0;
       const ps = params.ps ?? 10;
       
-      if (p * ps > 10000) {
+      if (p * ps > this.MAX_RESULT_WINDOW) {
         throw new Error('Page * pageSize cannot exceed 10,000');
       }
 
@@ -80,15 +223,138 @@ export class RijksmuseumApiClient {
       if (params.sortBy) apiParams.s = params.sortBy;
 
       const culture = params.culture ?? 'en';
-      const response = await this.axiosInstance.get(`${culture}/${this.ENDPOINTS.COLLECTION}`, {
-        params: apiParams
-      });
+      return await this.cachedGet('search', culture, `${culture}/${this.ENDPOINTS.COLLECTION}`, apiParams, data => {
+        if (!data.artObjects) {
+          throw new Error('Invalid response from Rijksmuseum API: missing artObjects');
+        }
+        return {
+          count: typeof data.count === 'number' ? data.count : data.artObjects.length,
+          artObjects: data.artObjects as ArtworkSearchResult[],
+          facets: RijksmuseumApiClient.normalizeFacets(data.facets)
+        };
+      }, options.fresh);
+    } catch (error) {
+      if (error instanceof Error) {
+        throw error;
+      }
+      throw new Error('Unknown error occurred while searching artworks');
+    }
+  }
+
+  /**
+   * Runs the same search in English and Dutch and merges the two result lists
+   * by object number, keeping the English order and appending Dutch-only hits.
+   */
+  async searchArtworksBilingual(params: Omit<SearchArtworkArguments, 'culture'>): Promise<BilingualSearchResponse> {
+    const [en, nl] = await Promise.all([
+      this.searchArtworks({ ...params, culture: 'en' }),
+      this.searchArtworks({ ...params, culture: 'nl' })
+    ]);
+
+    const dutch = new Map(nl.artObjects.map(artwork => [artwork.objectNumber, artwork]));
+    const artObjects: BilingualSearchResult[] = en.artObjects.map(artwork => {
+      const match = dutch.get(artwork.objectNumber);
+      dutch.delete(artwork.objectNumber);
+      return match
+        ? { objectNumber: artwork.objectNumber, foundIn: ['en', 'nl'], ...mergeBilingual(artwork, match) }
+        : { objectNumber: artwork.objectNumber, foundIn: ['en'], record: { ...artwork }, missingIn: { en: [], nl: [] } };
+    });
+    for (const artwork of dutch.values()) {
+      artObjects.push({ objectNumber: artwork.objectNumber, foundIn: ['nl'], record: { ...artwork }, missingIn: { en: [], nl: [] } });
+    }
+
+    return {
+      count: { en: en.count, nl: nl.count },
+      artObjects,
+      resolvedMaker: en.resolvedMaker ?? nl.resolvedMaker
+    };
+  }
 
-      if (!response.data.artObjects) {
-        throw new Error('Invalid response from Rijksmuseum API: missing artObjects');
+  async getSearchFacets(params: SearchArtworkArguments): Promise<Omit<ArtworkSearchResponse, 'artObjects'>> {
+    // Facets describe the whole result set, so a single-item page is enough
+    const { count, facets, resolvedMaker } = await this.searchArtworks({ ...params, p: 0, ps: 1 });
+    return resolvedMaker ? { count, facets, resolvedMaker } : { count, facets };
+  }
+
+  private static normalizeFacets(rawFacets: unknown): SearchFacets {
+    const facets: SearchFacets = {};
+    if (!Array.isArray(rawFacets)) {
+      return facets;
+    }
+
+    for (const facet of rawFacets) {
+      if (!facet || typeof facet.name !== 'string' || !Array.isArray(facet.facets)) continue;
+
+      // The API reports makers as principalMaker or involvedMaker depending on the query
+      const name = facet.name === 'principalMaker' || facet.name === 'involvedMaker' ? 'maker' : facet.name;
+      facets[name] = (facet.facets as unknown[])
+        .filter(RijksmuseumApiClient.isFacetBucket)
+        .map(bucket => ({ key: String(bucket.key), count: bucket.value }));
+    }
+    return facets;
+  }
+
+  private static isFacetBucket(bucket: unknown): bucket is { key: unknown; value: number } {
+    if (!bucket || typeof bucket !== 'object') return false;
+    const { key, value } = bucket as Record<string, unknown>;
+    return key !== undefined && typeof value === 'number';
+  }
+
+  async searchAllArtworks({ limit = 100, ...params }: SearchAllArtworksArguments): Promise<SearchAllArtworksResult> {
+    try {
+      if (limit < 1) {
+        throw new Error('Limit must be at least 1');
+      }
+
+      const ps = Math.min(params.ps ?? 100, 100);
+      const seen = new Set<string>();
+      const artworks: ArtworkSearchResult[] = [];
+      let totalCount = 0;
+      let pagesFetched = 0;
+      let stopReason: SearchAllArtworksResult['stopReason'] = 'exhausted';
+      let resolvedMaker: SearchAllArtworksResult['resolvedMaker'];
+
+      // The API treats p=0 and p=1 alike, so pages are counted from 1
+      for (let p = 1; ; p++) {
+        // The API refuses pages beyond the first 10,000 results
+        if (p * ps > this.MAX_RESULT_WINDOW) {
+          stopReason = 'resultWindow';
+          break;
+        }
+
+        const page = await this.searchArtworks({ ...params, p, ps });
+        pagesFetched++;
+        totalCount = page.count;
+        resolvedMaker = page.resolvedMaker;
+
+        // Results can shift between pages while walking them, so dedupe on objectNumber
+        let added = 0;
+        for (const artwork of page.artObjects) {
+          if (seen.has(artwork.objectNumber)) continue;
+          seen.add(artwork.objectNumber);
+          artworks.push(artwork);
+          added++;
+          if (artworks.length >= limit) break;
+        }
+
+        if (artworks.length >= limit) {
+          stopReason = artworks.length < totalCount ? 'limit' : 'exhausted';
+          break;
+        }
+        // A later page with nothing new means the API is repeating itself
+        if (page.artObjects.length < ps || seen.size >= totalCount || added === 0) {
+          break;
+        }
       }
 
-      return response.data.artObjects;
+      return {
+        totalCount,
+        fetched: artworks.length,
+        pagesFetched,
+        stopReason,
+        ...(resolvedMaker ? { resolvedMaker } : {}),
+        artworks
+      };
     } catch (error) {
       if (error instanceof Error) {
         throw error;
@@ -97,6 +363,83 @@ export class RijksmuseumApiClient {
     }
   }
 
+  /**
+   * Runs a search and keeps the results that pass filters the API cannot apply:
+   * the main part's size and the yearEarly–yearLate dating. Search results carry
+   * neither, so each result's details are fetched. A date range within one
+   * century narrows the search to that century first.
+   *
+   * Pages are scanned from params.p until a page's worth of matches is found;
+   * every match on a scanned page is returned, so there may be more than ps.
+   * The API treats p=0 and p=1 alike, so scanning starts at page 1 at the
+   * earliest and nextPage never points back at results already returned.
+   */
+  async searchArtworksPostFiltered(params: SearchArtworkArguments, filter: PostFilter): Promise<PostFilteredSearchResponse> {
+    const ps = params.ps ?? 10;
+    const culture = params.culture ?? 'en';
+    const century = filter.dates && params.century === undefined ? centuryOf(filter.dates) : null;
+    const searchParams = century !== null ? { ...params, century } : params;
+
+    const seen = new Set<string>();
+    const artObjects: PostFilteredSearchResult[] = [];
+    let count = 0;
+    let resolvedMaker: PostFilteredSearchResponse['resolvedMaker'];
+    let pagesScanned = 0;
+    let artworksFailed = 0;
+    let nextPage: number | null = Math.max(params.p ?? 1, 1);
+
+    while (nextPage !== null && artObjects.length < ps && pagesScanned < this.POST_FILTER_MAX_PAGES) {
+      const p: number = nextPage;
+      if (p * ps > this.MAX_RESULT_WINDOW) {
+        nextPage = null;
+        break;
+      }
+
+      const page = await this.searchArtworks({ ...searchParams, p, ps });
+      pagesScanned++;
+      count = page.count;
+      resolvedMaker = page.resolvedMaker;
+
+      // Results can shift between pages while scanning, so dedupe on objectNumber
+      const unseen = page.artObjects.filter(artwork => !seen.has(artwork.objectNumber));
+      unseen.forEach(artwork => seen.add(artwork.objectNumber));
+
+      const checked = await mapWithConcurrency(unseen, 4, async (artwork): Promise<PostFilteredSearchResult | null> => {
+        try {
+          const { artObject } = await this.getArtworkDetails(artwork.objectNumber, culture);
+          const measurements = artObject.measurements ?? parseDimensions(artObject.dimensions ?? []);
+
+          const matchedBecause: string[] = [];
+          if (filter.dates) {
+            const reason = explainDateMatch(artObject.dating, filter.dates);
+            if (!reason) return null;
+            matchedBecause.push(reason);
+          }
+          if (filter.size) {
+            const reasons = explainSizeMatch(measurements, filter.size);
+            if (!reasons) return null;
+            matchedBecause.push(...reasons);
+          }
+          return { ...artwork, dating: artObject.dating, measurements, matchedBecause };
+        } catch {
+          artworksFailed++;
+          return null;
+        }
+      });
+      artObjects.push(...checked.filter((artwork): artwork is PostFilteredSearchResult => artwork !== null));
+
+      nextPage = page.artObjects.length < ps || seen.size >= count ? null : p + 1;
+    }
+
+    return {
+      count,
+      artObjects,
+      ...(resolvedMaker ? { resolvedMaker } : {}),
+      filters: { ...filter, ...(century !== null ? { century } : {}) },
+      scan: { pagesScanned, artworksScanned: seen.size, artworksFailed, nextPage }
+    };
+  }
+
   async getArtworkDetails(objectNumber: string, culture: 'nl' | 'en' = 'en'): Promise<ArtworkDetails> {
     try {
       if (!objectNumber) {
@@ -105,13 +448,23 @@ export class RijksmuseumApiClient {
 
       // Ensure object number is properly encoded
       const encodedObjectNumber = encodeURIComponent(objectNumber);
-      const response = await this.axiosInstance.get(`${culture}/${this.ENDPOINTS.COLLECTION}/${encodedObjectNumber}`);
+      const details = await this.cachedGet('details', culture, `${culture}/${this.ENDPOINTS.COLLECTION}/${encodedObjectNumber}`, {}, data => {
+        if (!data.artObject) {
+          throw new Error('Invalid response from Rijksmuseum API: missing artObject');
+        }
+        return data as ArtworkDetails;
+      });
 
-      if (!response.data.artObject) {
-        throw new Error('Invalid response from Rijksmuseum API: missing artObject');
+      // Iconclass codes and dimension strings mean little on their own, so every record carries them decoded
+      const classification = details.artObject.classification;
+      if (classification) {
+        classification.subjects = describeIconclass(classification.iconClassIdentifier ?? [], classification.iconClassDescription);
       }
+      details.artObject.measurements = parseDimensions(details.artObject.dimensions ?? []);
 
-      return response.data;
+      // Everything we look up becomes searchable locally
+      this.index?.add(culture, details.artObject);
+      return details;
     } catch (error) {
       if (error instanceof Error) {
         throw error;
@@ -120,6 +473,19 @@ export class RijksmuseumApiClient {
     }
   }
 
+  /**
+   * Fetches an artwork in both languages at once and merges the records, so
+   * fields that only one language has filled in are not lost.
+   */
+  async getArtworkDetailsBilingual(objectNumber: string): Promise<BilingualArtworkDetails> {
+    const [en, nl] = await Promise.all([
+      this.getArtworkDetails(objectNumber, 'en'),
+      this.getArtworkDetails(objectNumber, 'nl')
+    ]);
+    const { record, missingIn } = mergeBilingual(en.artObject, nl.artObject);
+    return { objectNumber: en.artObject.objectNumber, artObject: record, missingIn };
+  }
+
   async getArtworkImageTiles(objectNumber: string, culture: 'nl' | 'en' = 'en'): Promise<ImageTiles> {
     try {
       if (!objectNumber) {
@@ -127,20 +493,20 @@ export class RijksmuseumApiClient {
       }
 
       const encodedObjectNumber = encodeURIComponent(objectNumber);
-      const response = await this.axiosInstance.get(`${culture}/${this.ENDPOINTS.COLLECTION}/${encodedObjectNumber}/tiles`);
+      return await this.cachedGet('tiles', culture, `${culture}/${this.ENDPOINTS.COLLECTION}/${encodedObjectNumber}/tiles`, {}, data => {
+        if (!data.levels || !Array.isArray(data.levels)) {
+          throw new Error('Invalid response from Rijksmuseum API: missing or invalid image tiles data');
+        }
 
-      if (!response.data.levels || !Array.isArray(response.data.levels)) {
-        throw new Error('Invalid response from Rijksmuseum API: missing or invalid image tiles data');
-      }
+        // Validate the structure of each level
+        data.levels.forEach((level: any, index: number) => {
+          if (!level.name || typeof level.width !== 'number' || typeof level.height !== 'number' || !Array.isArray(level.tiles)) {
+            throw new Error(`Invalid level data at index ${index}`);
+          }
+        });
 
-      // Validate the structure of each level
-      response.data.levels.forEach((level: any, index: number) => {
-        if (!level.name || typeof level.width !== 'number' || typeof level.height !== 'number' || !Array.isArray(level.tiles)) {
-          throw new Error(`Invalid level data at index ${index}`);
-        }
+        return data as ImageTiles;
       });
-
-      return response.data;
     } catch (error) {
       if (error instanceof Error) {
         throw error;
@@ -160,18 +526,12 @@ export class RijksmuseumApiClient {
         throw new Error('Page size must be between 1 and 100');
       }
 
-      const response = await this.axiosInstance.get(`${culture}/usersets`, {
-        params: { 
-          page,
-          pageSize
+      return await this.cachedGet('userSets', culture, `${culture}/usersets`, { page, pageSize }, data => {
+        if (!data.userSets || !Array.isArray(data.userSets)) {
+          throw new Error('Invalid response from Rijksmuseum API: missing or invalid userSets data');
         }
+        return data as UserSetsResponse;
       });
-
-      if (!response.data.userSets || !Array.isArray(response.data.userSets)) {
-        throw new Error('Invalid response from Rijksmuseum API: missing or invalid userSets data');
-      }
-
-      return response.data;
     } catch (error) {
       if (error instanceof Error) {
         throw error;
@@ -180,7 +540,10 @@ export class RijksmuseumApiClient {
     }
   }
 
-  async getUserSetDetails({ setId, culture = 'en', page = 0, pageSize = 25 }: GetUserSetDetailsArguments): Promise<UserSetDetails> {
+  async getUserSetDetails(
+    { setId, culture = 'en', page = 0, pageSize = 25 }: GetUserSetDetailsArguments,
+    options: { fresh?: boolean } = {}
+  ): Promise<UserSetDetails> {
     try {
       if (!setId) {
         throw new Error('Set ID is required');
@@ -196,23 +559,18 @@ export class RijksmuseumApiClient {
       }
 
       const encodedSetId = encodeURIComponent(setId);
-      const response = await this.axiosInstance.get(`${culture}/usersets/${encodedSetId}`, {
-        params: {
-          page,
-          pageSize
+      return await this.cachedGet('userSetDetails', culture, `${culture}/usersets/${encodedSetId}`, { page, pageSize }, data => {
+        if (!data.userSet) {
+          throw new Error('Invalid response from Rijksmuseum API: missing user set data');
         }
-      });
-
-      if (!response.data.userSet) {
-        throw new Error('Invalid response from Rijksmuseum API: missing user set data');
-      }
 
-      // Validate the structure of setItems if they exist
-      if (response.data.userSet.setItems && !Array.isArray(response.data.userSet.setItems)) {
-        throw new Error('Invalid response from Rijksmuseum API: invalid setItems format');
-      }
+        // Validate the structure of setItems if they exist
+        if (data.userSet.setItems && !Array.isArray(data.userSet.setItems)) {
+          throw new Error('Invalid response from Rijksmuseum API: invalid setItems format');
+        }
 
-      return response.data;
+        return data as UserSetDetails;
+      }, options.fresh);
     } catch (error) {
       if (error instanceof Error) {
         throw error;
@@ -221,32 +579,195 @@ export class RijksmuseumApiClient {
     }
   }
 
-  async getArtistTimeline(artist: string, maxWorks: number = 10): Promise<TimelineArtwork[]> {
+  /**
+   * Collects the object numbers of a user set across pages, in set order, up
+   * to `limit`. The set summary (name, count, updatedOn) comes from the last
+   * page read.
+   */
+  async getUserSetObjectNumbers(
+    setId: string,
+    options: { culture?: 'nl' | 'en'; limit?: number; fresh?: boolean } = {}
+  ): Promise<{ userSet: UserSetDetails['userSet']; objectNumbers: string[] }> {
+    const { culture = 'en', limit = 1000, fresh = false } = options;
+    const pageSize = 100;
+    const objectNumbers: string[] = [];
+
+    for (let page = 0; ; page++) {
+      const { userSet } = await this.getUserSetDetails({ setId, culture, page, pageSize }, { fresh });
+      const items = userSet.setItems ?? [];
+      objectNumbers.push(...items.map(item => item.objectNumber));
+      if (objectNumbers.length >= limit || items.length < pageSize || objectNumbers.length >= userSet.count) {
+        return { userSet, objectNumbers: objectNumbers.slice(0, limit) };
+      }
+    }
+  }
+
+  /**
+   * Turns free-text artist input into exact maker names. Candidates come from
+   * the maker facet of a full-text search (falling back to each word, then to
+   * the unfiltered maker facet), are ranked by name similarity and then
+   * enriched with their total work count and life data from principalMakers.
+   */
+  async resolveArtist(text: string, options: { limit?: number; culture?: 'nl' | 'en' } = {}): Promise<ArtistResolution> {
+    const { limit = 5, culture = 'en' } = options;
+    const ranked = await this.findMakerCandidates(text, culture);
+    const candidates = await Promise.all(ranked.slice(0, limit).map(candidate => this.describeMaker(candidate, culture)));
+    return { query: text, candidates };
+  }
+
+  private async findMakerCandidates(text: string, culture: 'nl' | 'en') {
+    const query = normalizeArtistName(text);
+    if (!query) {
+      throw new Error('Artist name is required');
+    }
+
+    const ranked = await this.rankMakerFacet(query, query, culture);
+    if (ranked.length > 0) return ranked;
+
+    const words = query.split(' ').filter(word => word.length > 2).sort((a, b) => b.length - a.length);
+    for (const word of words) {
+      const byWord = await this.rankMakerFacet(word, query, culture);
+      if (byWord.length > 0) return byWord;
+    }
+
+    // Misspelt names match no text at all; compare against the collection's most prolific makers
+    return this.rankMakerFacet('', query, culture);
+  }
+
+  private async rankMakerFacet(searchText: string, query: string, culture: 'nl' | 'en') {
+    const { facets } = await this.getSearchFacets({ q: searchText, culture });
+    return (facets.maker ?? [])
+      .map(bucket => ({ name: bucket.key, hits: bucket.count, ...matchArtistName(query, bucket.key) }))
+      .filter(candidate => candidate.similarity >= this.MIN_ARTIST_SIMILARITY)
+      .sort((a, b) => b.similarity - a.similarity || b.hits - a.hits);
+  }
+
+  private async describeMaker(
+    candidate: { name: string; similarity: number; match: ArtistCandidate['match'] },
+    culture: 'nl' | 'en'
+  ): Promise<ArtistCandidate> {
+    const described: ArtistCandidate = {
+      name: candidate.name,
+      similarity: Number(candidate.similarity.toFixed(3)),
+      match: candidate.match,
+      workCount: 0,
+      dateOfBirth: null,
+      dateOfDeath: null,
+      placeOfBirth: null,
+      nationality: null,
+      occupation: []
+    };
+
     try {
-      if (!artist) {
-        throw new Error('Artist name is required');
+      const { count, artObjects } = await this.searchArtworks({ involvedMaker: candidate.name, ps: 1, culture });
+      described.workCount = count;
+      if (artObjects.length === 0) return described;
+
+      const { artObject } = await this.getArtworkDetails(artObjects[0].objectNumber, culture);
+      const maker = artObject.principalMakers?.find(entry => entry.name === candidate.name);
+      if (maker) {
+        described.dateOfBirth = maker.dateOfBirth ?? null;
+        described.dateOfDeath = maker.dateOfDeath ?? null;
+        described.placeOfBirth = maker.placeOfBirth ?? null;
+        described.nationality = maker.nationality ?? null;
+        described.occupation = maker.occupation ?? [];
       }
+    } catch (error) {
+      // The name itself is still useful without the extra context
+      logger.warn('Could not describe maker', { maker: candidate.name, error });
+    }
+    return described;
+  }
 
-      const response = await this.axiosInstance.get(`${this.ENDPOINTS.COLLECTION}`, {
-        params: {
-          involvedMaker: encodeURIComponent(artist),
-          ps: maxWorks,
-          s: 'chronologic',
-          imgonly: true
-        }
-      });
+  /**
+   * Returns the best exact maker name for fuzzy input, or the input unchanged
+   * when nothing matches well enough.
+   */
+  private async resolveMakerName(name: string, culture: 'nl' | 'en'): Promise<string> {
+    const [best] = await this.findMakerCandidates(name, culture);
+    return best?.name ?? name;
+  }
 
-      if (!response.data.artObjects) {
-        throw new Error('Invalid response from Rijksmuseum API: missing artObjects');
+  /**
+   * Builds a page of an artist's works in chronological order, dated from each
+   * work's dating record rather than its title. The first and last works in
+   * the whole collection define the career used for phase grouping.
+   */
+  async getArtistTimeline(artist: string, options: {
+    page?: number;
+    pageSize?: number;
+    culture?: 'nl' | 'en';
+    imagesOnly?: boolean;
+    resolve?: boolean;
+  } = {}): Promise<ArtistTimeline> {
+    const { page = 0, pageSize = 10, culture = 'en', imagesOnly = true, resolve = false } = options;
+
+    try {
+      if (!artist) {
+        throw new Error('Artist name is required');
       }
 
-      return response.data.artObjects.map((artwork: ArtworkSearchResult) => ({
-        year: artwork.longTitle.match(/\d{4}/)?.[0] || "Unknown",
-        title: artwork.title,
-        objectNumber: artwork.objectNumber,
-        description: artwork.longTitle,
-        image: artwork.webImage ? artwork.webImage.url : null
-      }));
+      const name = resolve ? await this.resolveMakerName(artist, culture) : artist;
+      const filters: SearchArtworkArguments = { involvedMaker: name, culture, imgonly: imagesOnly || undefined };
+
+      // The API treats p=0 and p=1 alike, so page n is requested as p=n+1
+      const [pageResult, first, last] = await Promise.all([
+        this.searchArtworks({ ...filters, sortBy: 'chronologic', p: page + 1, ps: pageSize }),
+        this.searchArtworks({ ...filters, sortBy: 'chronologic', p: 1, ps: 1 }),
+        this.searchArtworks({ ...filters, sortBy: 'achronologic', p: 1, ps: 1 })
+      ]);
+
+      const detailsFor = (artworks: ArtworkSearchResult[]) => mapWithConcurrency(artworks, 4, artwork =>
+        this.getArtworkDetails(artwork.objectNumber, culture).catch(error => {
+          logger.warn('Timeline is missing dating', { objectNumber: artwork.objectNumber, error });
+          return null;
+        })
+      );
+      const [pageDetails, [firstDetails], [lastDetails]] = await Promise.all([
+        detailsFor(pageResult.artObjects),
+        detailsFor(first.artObjects),
+        detailsFor(last.artObjects)
+      ]);
+
+      const maker = this.findTimelineMaker(name, [...pageDetails, firstDetails, lastDetails]);
+      const birthYear = maker?.birthYear ?? null;
+      const deathYear = maker?.deathYear ?? null;
+
+      const works: TimelineArtwork[] = pageResult.artObjects.map((artwork, index) => {
+        const dating = describeDating(pageDetails[index]?.artObject.dating);
+        const ageEarly = computeAge(birthYear, dating.yearEarly);
+        const ageLate = computeAge(birthYear, dating.yearLate);
+        return {
+          objectNumber: artwork.objectNumber,
+          title: artwork.title,
+          description: artwork.longTitle,
+          image: artwork.webImage ? artwork.webImage.url : null,
+          ...dating,
+          age: computeAge(birthYear, dating.year),
+          ageRange: ageEarly !== null && ageLate !== null && ageEarly !== ageLate ? [ageEarly, ageLate] : null,
+          phase: null
+        };
+      });
+      works.sort((a, b) => (a.year ?? Infinity) - (b.year ?? Infinity));
+
+      // Reproductions made after the artist died should not stretch the career
+      const firstYear = describeDating(firstDetails?.artObject.dating).yearEarly;
+      const latestYear = describeDating(lastDetails?.artObject.dating).year;
+      const lastYear = latestYear !== null && deathYear !== null ? Math.min(latestYear, deathYear) : latestYear;
+      const career = firstYear !== null && lastYear !== null && lastYear >= firstYear ? { firstYear, lastYear } : null;
+
+      return {
+        artist: name,
+        ...(name !== artist ? { resolvedFrom: artist } : {}),
+        maker,
+        career,
+        phases: buildPhases(career, birthYear, deathYear, works),
+        totalWorks: pageResult.count,
+        page,
+        pageSize,
+        hasMore: (page + 1) * pageSize < pageResult.count,
+        works
+      };
     } catch (error) {
       if (error instanceof Error) {
         throw error;
@@ -254,4 +775,23 @@ export class RijksmuseumApiClient {
       throw new Error('Unknown error occurred while fetching artist timeline');
     }
   }
+
+  private findTimelineMaker(name: string, details: Array<ArtworkDetails | null>): TimelineMaker | null {
+    const wanted = normalizeArtistName(name);
+    for (const entry of details) {
+      const maker = entry?.artObject.principalMakers?.find(candidate => normalizeArtistName(candidate.name) === wanted);
+      if (maker) {
+        return {
+          name: maker.name,
+          dateOfBirth: maker.dateOfBirth ?? null,
+          dateOfDeath: maker.dateOfDeath ?? null,
+          placeOfBirth: maker.placeOfBirth ?? null,
+          placeOfDeath: maker.placeOfDeath ?? null,
+          birthYear: parseYear(maker.dateOfBirth),
+          deathYear: parseYear(maker.dateOfDeath)
+        };
+      }
+    }
+    return null;
+  }
 } 
\ No newline at end of file
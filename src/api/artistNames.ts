@@ -0,0 +1,67 @@
+export type NameMatch = 'exact' | 'tokens' | 'prefix' | 'fuzzy';
+
+/**
+ * Lower-cases a maker name, strips accents and treats the `+` separators used
+ * in involvedMaker values as spaces, so "Rembrandt+van+Rijn" and
+ * "rembrandt van rijn" compare equal.
+ */
+export function normalizeArtistName(name: string): string {
+  return name
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[+_]/g, ' ')
+    .replace(/[^\p{L}\p{N}\s]/gu, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Scores how well free-text input matches a maker name, from 0 (unrelated) to
+ * 1 (same name). Input words found in the name score highest, so "van gogh"
+ * matches "Vincent van Gogh"; otherwise trigram overlap absorbs typos.
+ */
+export function matchArtistName(input: string, candidate: string): { similarity: number; match: NameMatch } {
+  const query = normalizeArtistName(input);
+  const name = normalizeArtistName(candidate);
+  if (!query || !name) return { similarity: 0, match: 'fuzzy' };
+  if (query === name) return { similarity: 1, match: 'exact' };
+
+  const queryWords = query.split(' ');
+  const nameWords = name.split(' ');
+  // Extra words in the name (first names, "van", "de") only cost a little
+  const coverage = queryWords.length / nameWords.length;
+
+  if (queryWords.every(word => nameWords.includes(word))) {
+    return { similarity: 0.8 + 0.15 * coverage, match: 'tokens' };
+  }
+  if (queryWords.every(word => nameWords.some(nameWord => nameWord.startsWith(word)))) {
+    return { similarity: 0.65 + 0.15 * coverage, match: 'prefix' };
+  }
+
+  // A misspelt surname ("rembrant") is closer to one word than to the full name
+  const closest = Math.max(
+    trigramSimilarity(query, name),
+    ...nameWords.map(word => 0.9 * trigramSimilarity(query, word))
+  );
+  return { similarity: 0.7 * closest, match: 'fuzzy' };
+}
+
+function trigramSimilarity(a: string, b: string): number {
+  const trigrams = (text: string) => {
+    const padded = `  ${text} `;
+    const grams = new Set<string>();
+    for (let index = 0; index < padded.length - 2; index++) {
+      grams.add(padded.slice(index, index + 3));
+    }
+    return grams;
+  };
+
+  const left = trigrams(a);
+  const right = trigrams(b);
+  let shared = 0;
+  for (const gram of left) {
+    if (right.has(gram)) shared++;
+  }
+  return (2 * shared) / (left.size + right.size);
+} 
\ No newline at end of file
@@ -0,0 +1,65 @@
+import { BilingualRecord } from '../types.js';
+
+/**
+ * Merges the English and Dutch versions of the same record. Values that are
+ * identical in both languages are kept as they are; values that differ become
+ * `{ en, nl }`. Nested objects are merged field by field, arrays as a whole.
+ *
+ * A field that is empty (null, missing, '' or []) in one language but filled
+ * in the other is recorded in `missingIn` under that language, by dotted path.
+ */
+export function mergeBilingual(en: object, nl: object): BilingualRecord {
+  const missingIn: BilingualRecord['missingIn'] = { en: [], nl: [] };
+  const record = mergeObjects(en as Record<string, unknown>, nl as Record<string, unknown>, '', missingIn);
+  return { record, missingIn };
+}
+
+function mergeObjects(
+  en: Record<string, unknown>,
+  nl: Record<string, unknown>,
+  prefix: string,
+  missingIn: BilingualRecord['missingIn']
+): Record<string, unknown> {
+  const merged: Record<string, unknown> = {};
+  for (const key of new Set([...Object.keys(en), ...Object.keys(nl)])) {
+    merged[key] = mergeValues(en[key], nl[key], prefix ? `${prefix}.${key}` : key, missingIn);
+  }
+  return merged;
+}
+
+function mergeValues(en: unknown, nl: unknown, path: string, missingIn: BilingualRecord['missingIn']): unknown {
+  const enEmpty = isEmpty(en);
+  const nlEmpty = isEmpty(nl);
+
+  if (enEmpty && nlEmpty) {
+    return en ?? nl ?? null;
+  }
+  if (enEmpty || nlEmpty) {
+    missingIn[enEmpty ? 'en' : 'nl'].push(path);
+    return { en: en ?? null, nl: nl ?? null };
+  }
+  if (isPlainObject(en) && isPlainObject(nl)) {
+    return mergeObjects(en, nl, path, missingIn);
+  }
+  return deepEqual(en, nl) ? en : { en, nl };
+}
+
+function isEmpty(value: unknown): boolean {
+  return value === null || value === undefined || value === '' || (Array.isArray(value) && value.length === 0);
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function deepEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, index) => deepEqual(item, b[index]));
+  }
+  if (isPlainObject(a) && isPlainObject(b)) {
+    const keys = Object.keys(a);
+    return keys.length === Object.keys(b).length && keys.every(key => deepEqual(a[key], b[key]));
+  }
+  return false;
+} 
\ No newline at end of file
@@ -0,0 +1,146 @@
+import { ArtworkDetails, DateFilter, DateRange } from '../types.js';
+import { validYear } from './timeline.js';
+
+type Dating = ArtworkDetails['artObject']['dating'];
+
+// "c. 1650" without an explicit margin means 1640–1660
+const CIRCA_MARGIN = 10;
+
+const CIRCA = String.raw`(?:c\.?|ca\.?|circa|around|about|approx\.?|omstreeks)`;
+const PLUS_MINUS = String.raw`(?:±|\+\/-|\+-)`;
+
+const EXAMPLES = '"1642-1650", "c. 1650", "circa 1665 ± 5", "1640s", "before 1600", "after 1650" or "late 17th century"';
+
+/**
+ * Reads a date expression into an inclusive year range. Understands single
+ * years, ranges ("1642-1650", "between 1642 and 1650"), circa dates with an
+ * optional margin ("c. 1665 ± 5"), decades ("1640s"), centuries ("1600s",
+ * "17th century", "late 17th century") and open ranges ("before 1600",
+ * "after 1650", "until 1700", "since 1800"). Centuries follow the API's
+ * dating periods, so the 17th century is 1600–1699.
+ */
+export function parseDateExpression(expression: string): DateRange {
+  const text = expression.trim().toLowerCase().replace(/[–—]/g, '-').replace(/\s+/g, ' ');
+  const range = readRange(text);
+  if (!range) {
+    throw new Error(`Could not read the date expression "${expression}". Try ${EXAMPLES}.`);
+  }
+  if (range.from !== null && range.to !== null && range.from > range.to) {
+    throw new Error(`Date expression "${expression}" ends before it starts`);
+  }
+
+  // Mention the expression when it reads differently from the range
+  const described = formatRange(range.from, range.to);
+  return { ...range, description: described.replace('–', '-') === text ? described : `${described} (${expression.trim()})` };
+}
+
+export function yearRange(yearFrom: number | undefined, yearTo: number | undefined): DateRange {
+  if (yearFrom !== undefined && yearTo !== undefined && yearFrom > yearTo) {
+    throw new Error(`yearFrom (${yearFrom}) must not be after yearTo (${yearTo})`);
+  }
+  const from = yearFrom ?? null;
+  const to = yearTo ?? null;
+  return { from, to, description: formatRange(from, to) };
+}
+
+/**
+ * The API's dating period (century) that holds the whole range, so a search
+ * can be narrowed before post-filtering. Null for open or multi-century ranges.
+ */
+export function centuryOf(range: DateRange): number | null {
+  if (range.from === null || range.to === null || range.from < 0) return null;
+  const century = Math.floor(range.from / 100) + 1;
+  return Math.floor(range.to / 100) + 1 === century ? century : null;
+}
+
+/**
+ * Explains why an artwork's dating matches the filter, or returns null when
+ * it does not. Artworks match on their yearEarly–yearLate span: 'overlap'
+ * accepts any overlap with the filter, 'within' needs the whole span inside.
+ */
+export function explainDateMatch(dating: Dating | undefined, filter: DateFilter): string | null {
+  const early = validYear(dating?.yearEarly) ?? validYear(dating?.sortingDate);
+  const late = validYear(dating?.yearLate) ?? early;
+  if (early === null || late === null) return null;
+
+  const from = filter.from ?? -Infinity;
+  const to = filter.to ?? Infinity;
+  const within = early >= from && late <= to;
+  const overlaps = early <= to && late >= from;
+  if (filter.match === 'within' ? !within : !overlaps) return null;
+
+  const dated = formatRange(early, late);
+  const presented = dating?.presentingDate && dating.presentingDate !== dated ? ` ("${dating.presentingDate}")` : '';
+  return `dated ${dated}${presented}, ${within ? 'within' : 'overlapping'} ${filter.description}`;
+}
+
+function readRange(text: string): { from: number | null; to: number | null } | null {
+  let match: RegExpMatchArray | null;
+
+  if ((match = text.match(/^(?:between |from )?(\d{1,4}) ?(?:-|to|and|until|till) ?(\d{1,4})$/))) {
+    // "1642-50" shares the leading digits of its start
+    const [start, end] = [match[1], match[2]];
+    const expanded = end.length < start.length ? start.slice(0, start.length - end.length) + end : end;
+    return { from: Number(start), to: Number(expanded) };
+  }
+
+  // Checked after ranges, so "from 1642 to 1650" is not read as open-ended
+  if ((match = text.match(/^(before|after|until|till|up to|by|since|from) (.+)$/))) {
+    const inner = readRange(match[2]);
+    if (!inner) return null;
+    switch (match[1]) {
+      case 'before': return inner.from === null ? null : { from: null, to: inner.from - 1 };
+      case 'after': return inner.to === null ? null : { from: inner.to + 1, to: null };
+      case 'since':
+      case 'from': return { from: inner.from, to: null };
+      default: return { from: null, to: inner.to };
+    }
+  }
+
+  if ((match = text.match(new RegExp(`^(?:${CIRCA} ?)?(\\d{1,4}) ?${PLUS_MINUS} ?(\\d{1,3})$`)))) {
+    const [year, margin] = [Number(match[1]), Number(match[2])];
+    return { from: year - margin, to: year + margin };
+  }
+
+  if ((match = text.match(new RegExp(`^${CIRCA} ?(\\d{1,4})$`)))) {
+    const year = Number(match[1]);
+    return { from: year - CIRCA_MARGIN, to: year + CIRCA_MARGIN };
+  }
+
+  if ((match = text.match(/^(?:the )?(\d{1,2})00s$/))) {
+    const start = Number(match[1]) * 100;
+    return { from: start, to: start + 99 };
+  }
+
+  if ((match = text.match(/^(?:the )?(\d{1,3})0s$/))) {
+    const start = Number(match[1]) * 10;
+    return { from: start, to: start + 9 };
+  }
+
+  if ((match = text.match(/^(?:(early|mid|middle|late|first half of the|second half of the) )?(?:the )?(\d{1,2})(?:st|nd|rd|th) century$/))) {
+    const start = (Number(match[2]) - 1) * 100;
+    switch (match[1]) {
+      case 'early': return { from: start, to: start + 32 };
+      case 'mid':
+      case 'middle': return { from: start + 33, to: start + 66 };
+      case 'late': return { from: start + 67, to: start + 99 };
+      case 'first half of the': return { from: start, to: start + 49 };
+      case 'second half of the': return { from: start + 50, to: start + 99 };
+      default: return { from: start, to: start + 99 };
+    }
+  }
+
+  if ((match = text.match(/^(?:in )?(\d{1,4})$/))) {
+    const year = Number(match[1]);
+    return { from: year, to: year };
+  }
+
+  return null;
+}
+
+function formatRange(from: number | null, to: number | null): string {
+  if (from !== null && to !== null) return from === to ? `${from}` : `${from}–${to}`;
+  if (to !== null) return `${to} or earlier`;
+  if (from !== null) return `${from} or later`;
+  return 'any date';
+} 
\ No newline at end of file
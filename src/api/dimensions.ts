@@ -0,0 +1,112 @@
+import { ArtworkDetails, ArtworkMeasurements, MeasuredPart, SizeFilter } from '../types.js';
+
+type Dimension = ArtworkDetails['artObject']['dimensions'][number];
+type Measure = Exclude<keyof MeasuredPart, 'part'>;
+
+// Dimension types as the API names them in either language
+const MEASURES: Record<string, Measure> = {
+  height: 'heightCm',
+  hoogte: 'heightCm',
+  width: 'widthCm',
+  breedte: 'widthCm',
+  depth: 'depthCm',
+  diepte: 'depthCm',
+  diameter: 'diameterCm',
+  weight: 'weightKg',
+  gewicht: 'weightKg'
+};
+
+// Factors to centimetres for lengths and to kilograms for weights
+const LENGTH_UNITS: Record<string, number> = { mm: 0.1, cm: 1, m: 100 };
+const WEIGHT_UNITS: Record<string, number> = { g: 0.001, kg: 1 };
+
+// Frames and mounts are measured too, but are not the artwork itself
+const SURROUND_PARTS = /frame|lijst|mount|passe-partout/i;
+
+// Height and width within this fraction of each other count as square
+const SQUARE_TOLERANCE = 0.02;
+
+/**
+ * Turns the API's dimension strings into metric numbers, grouped per part.
+ * Values may use a decimal comma ("379,5"). The main part is the object itself
+ * when it is measured, otherwise the first part that is not a frame or mount.
+ */
+export function parseDimensions(dimensions: Dimension[]): ArtworkMeasurements {
+  const parts = new Map<string | null, MeasuredPart>();
+  const unparsed: string[] = [];
+
+  for (const dimension of dimensions) {
+    const measure = MEASURES[dimension.type?.trim().toLowerCase()];
+    const value = Number(String(dimension.value ?? '').trim().replace(',', '.'));
+    const unit = dimension.unit?.trim().toLowerCase();
+    const factor = measure === 'weightKg' ? WEIGHT_UNITS[unit] : LENGTH_UNITS[unit];
+    if (!measure || !factor || !Number.isFinite(value) || value <= 0) {
+      unparsed.push([dimension.part, dimension.type, dimension.value, dimension.unit].filter(Boolean).join(' '));
+      continue;
+    }
+
+    const partName = dimension.part?.trim() || null;
+    const part = parts.get(partName) ?? { part: partName };
+    part[measure] = round(value * factor);
+    parts.set(partName, part);
+  }
+
+  const measured = [...parts.values()];
+  const main = parts.get(null)
+    ?? measured.find(part => !SURROUND_PARTS.test(part.part ?? '') && part.heightCm !== undefined && part.widthCm !== undefined)
+    ?? measured.find(part => !SURROUND_PARTS.test(part.part ?? ''))
+    ?? null;
+
+  return { main, parts: measured, orientation: orientationOf(main), areaCm2: areaOf(main), unparsed };
+}
+
+/**
+ * Explains why the main part fits the filter, one reason per filtered measure,
+ * or returns null when it does not. Artworks lacking a filtered measure never fit.
+ */
+export function explainSizeMatch(measurements: ArtworkMeasurements, filter: SizeFilter): string[] | null {
+  const main = measurements.main;
+  const checks: Array<[string, number | undefined, number | undefined, number | undefined]> = [
+    ['height', main?.heightCm, filter.minHeightCm, filter.maxHeightCm],
+    ['width', main?.widthCm, filter.minWidthCm, filter.maxWidthCm]
+  ];
+
+  const reasons: string[] = [];
+  for (const [name, value, min, max] of checks) {
+    if (min === undefined && max === undefined) continue;
+    if (value === undefined || !withinRange(value, min, max)) return null;
+
+    const bounds = min !== undefined && max !== undefined
+      ? `between ${min} and ${max} cm`
+      : min !== undefined ? `at least ${min} cm` : `at most ${max} cm`;
+    reasons.push(`${name}${main?.part ? ` (${main.part})` : ''} ${value} cm, ${bounds}`);
+  }
+  return reasons;
+}
+
+export function hasSizeFilter(filter: SizeFilter): boolean {
+  return [filter.minHeightCm, filter.maxHeightCm, filter.minWidthCm, filter.maxWidthCm].some(value => value !== undefined);
+}
+
+function withinRange(value: number, min: number | undefined, max: number | undefined): boolean {
+  return (min === undefined || value >= min) && (max === undefined || value <= max);
+}
+
+function orientationOf(part: MeasuredPart | null): ArtworkMeasurements['orientation'] {
+  if (!part?.heightCm || !part.widthCm) return null;
+  const difference = Math.abs(part.heightCm - part.widthCm) / Math.max(part.heightCm, part.widthCm);
+  if (difference <= SQUARE_TOLERANCE) return 'square';
+  return part.heightCm > part.widthCm ? 'portrait' : 'landscape';
+}
+
+function areaOf(part: MeasuredPart | null): number | null {
+  if (part?.heightCm && part.widthCm) return round(part.heightCm * part.widthCm);
+  // Round objects such as medals and plates are only given a diameter
+  if (part?.diameterCm) return round(Math.PI * (part.diameterCm / 2) ** 2);
+  return null;
+}
+
+// Unit conversion leaves float noise such as 37.949999999999996
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
@@ -0,0 +1,100 @@
+import { ArtworkDetails, LifePhase, TimelineArtwork, TimelinePhase } from '../types.js';
+
+type Dating = ArtworkDetails['artObject']['dating'];
+
+// Careers shorter than this are not worth splitting into phases
+const MIN_PHASED_CAREER_YEARS = 3;
+
+/**
+ * Reads the year from museum date strings such as "1606-07-15", "1606" or
+ * "-0450". Returns null for empty or unparseable values.
+ */
+export function parseYear(date: string | null | undefined): number | null {
+  const match = date?.trim().match(/^(-?\d{1,4})(?:\D|$)/);
+  return match ? Number(match[1]) : null;
+}
+
+export function describeDating(dating: Dating | undefined): Pick<TimelineArtwork, 'date' | 'year' | 'yearEarly' | 'yearLate' | 'precision'> {
+  const year = validYear(dating?.sortingDate);
+  const yearEarly = validYear(dating?.yearEarly) ?? year;
+  const yearLate = validYear(dating?.yearLate) ?? year;
+  const date = dating?.presentingDate || null;
+
+  let precision: TimelineArtwork['precision'] = 'unknown';
+  if (year !== null) {
+    if (/^\s*(c\.|ca\.|circa|omstreeks)/i.test(date ?? '')) {
+      precision = 'circa';
+    } else if (yearEarly !== null && yearLate !== null && yearEarly !== yearLate) {
+      precision = 'range';
+    } else {
+      precision = 'year';
+    }
+  }
+
+  return { date, year, yearEarly, yearLate, precision };
+}
+
+export function computeAge(birthYear: number | null, year: number | null): number | null {
+  if (birthYear === null || year === null) return null;
+  const age = year - birthYear;
+  return age >= 0 ? age : null;
+}
+
+/**
+ * Splits the documented career into early, middle and late thirds, plus a
+ * posthumous phase when works are dated after the artist's death.
+ */
+export function buildPhases(
+  career: { firstYear: number; lastYear: number } | null,
+  birthYear: number | null,
+  deathYear: number | null,
+  works: TimelineArtwork[]
+): TimelinePhase[] {
+  const phases: TimelinePhase[] = [];
+
+  if (career && career.lastYear - career.firstYear >= MIN_PHASED_CAREER_YEARS) {
+    const span = career.lastYear - career.firstYear + 1;
+    const bounds: Array<[LifePhase, number, number]> = [
+      ['early', career.firstYear, career.firstYear + Math.floor(span / 3) - 1],
+      ['middle', career.firstYear + Math.floor(span / 3), career.firstYear + Math.floor(2 * span / 3) - 1],
+      ['late', career.firstYear + Math.floor(2 * span / 3), career.lastYear]
+    ];
+    for (const [phase, fromYear, toYear] of bounds) {
+      phases.push({
+        phase,
+        fromYear,
+        toYear,
+        fromAge: computeAge(birthYear, fromYear),
+        toAge: computeAge(birthYear, toYear),
+        worksOnPage: 0
+      });
+    }
+  }
+
+  if (deathYear !== null && works.some(work => work.year !== null && work.year > deathYear)) {
+    phases.push({ phase: 'posthumous', fromYear: deathYear + 1, toYear: null, fromAge: null, toAge: null, worksOnPage: 0 });
+  }
+
+  for (const work of works) {
+    work.phase = phaseOf(work.year, phases, deathYear);
+    const phase = phases.find(candidate => candidate.phase === work.phase);
+    if (phase) phase.worksOnPage++;
+  }
+  return phases;
+}
+
+function phaseOf(year: number | null, phases: TimelinePhase[], deathYear: number | null): LifePhase | null {
+  if (year === null) return null;
+  if (deathYear !== null && year > deathYear) return 'posthumous';
+
+  const lifetime = phases.filter(phase => phase.phase !== 'posthumous');
+  if (lifetime.length === 0) return null;
+  // Works just outside the sampled career still belong to the nearest end
+  if (year < lifetime[0].fromYear) return 'early';
+  return lifetime.find(phase => phase.toYear !== null && year <= phase.toYear)?.phase ?? 'late';
+}
+
+// The API reports 0 for artworks it has no dating for
+export function validYear(value: number | null | undefined): number | null {
+  return typeof value === 'number' && Number.isFinite(value) && value !== 0 ? value : null;
+} 
\ No newline at end of file
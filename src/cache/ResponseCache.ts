@@ -0,0 +1,190 @@
+import fs from 'fs';
+import path from 'path';
+import { logger } from '../observability/Logger.js';
+
+export type CacheEndpoint = 'search' | 'details' | 'tiles' | 'userSets' | 'userSetDetails';
+
+export interface CacheOptions {
+  enabled: boolean;
+  maxEntries: number;
+  filePath?: string;
+  ttlSeconds: Record<CacheEndpoint, number>;
+}
+
+export interface CacheStats {
+  enabled: boolean;
+  entries: number;
+  maxEntries: number;
+  hits: number;
+  misses: number;
+  evictions: number;
+  hitRate: number;
+  persistedTo: string | null;
+  entriesByEndpoint: Record<string, number>;
+}
+
+interface CacheEntry {
+  endpoint: CacheEndpoint;
+  expiresAt: number;
+  value: unknown;
+}
+
+export class ResponseCache {
+  private entries = new Map<string, CacheEntry>();
+  private hits = 0;
+  private misses = 0;
+  private evictions = 0;
+  private persistTimer: NodeJS.Timeout | null = null;
+
+  constructor(private readonly options: CacheOptions) {
+    if (this.options.enabled && this.options.filePath) {
+      this.load();
+    }
+  }
+
+  static buildKey(endpoint: CacheEndpoint, culture: string, params: Record<string, unknown> = {}): string {
+    // Sort keys and drop empty values so equivalent requests share an entry
+    const normalized = Object.keys(params)
+      .filter(key => params[key] !== undefined && params[key] !== null && params[key] !== '')
+      .sort()
+      .map(key => `${key}=${String(params[key])}`)
+      .join('&');
+    return `${endpoint}:${culture}:${normalized}`;
+  }
+
+  get<T>(key: string): T | undefined {
+    if (!this.options.enabled) return undefined;
+
+    const entry = this.entries.get(key);
+    if (!entry) {
+      this.misses++;
+      return undefined;
+    }
+
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      this.misses++;
+      return undefined;
+    }
+
+    // Re-insert to mark the entry as most recently used
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    this.hits++;
+    return entry.value as T;
+  }
+
+  set(endpoint: CacheEndpoint, key: string, value: unknown): void {
+    if (!this.options.enabled) return;
+
+    const ttl = this.options.ttlSeconds[endpoint];
+    if (ttl <= 0) return;
+
+    this.entries.delete(key);
+    this.entries.set(key, {
+      endpoint,
+      expiresAt: Date.now() + ttl * 1000,
+      value
+    });
+
+    while (this.entries.size > this.options.maxEntries) {
+      const oldestKey = this.entries.keys().next().value;
+      if (oldestKey === undefined) break;
+      this.entries.delete(oldestKey);
+      this.evictions++;
+    }
+
+    this.schedulePersist();
+  }
+
+  clear(endpoint?: CacheEndpoint): number {
+    let removed = 0;
+    for (const [key, entry] of this.entries) {
+      if (!endpoint || entry.endpoint === endpoint) {
+        this.entries.delete(key);
+        removed++;
+      }
+    }
+    if (!endpoint) {
+      this.hits = 0;
+      this.misses = 0;
+      this.evictions = 0;
+    }
+    this.schedulePersist();
+    return removed;
+  }
+
+  getStats(): CacheStats {
+    const entriesByEndpoint: Record<string, number> = {};
+    for (const entry of this.entries.values()) {
+      entriesByEndpoint[entry.endpoint] = (entriesByEndpoint[entry.endpoint] ?? 0) + 1;
+    }
+
+    const lookups = this.hits + this.misses;
+    return {
+      enabled: this.options.enabled,
+      entries: this.entries.size,
+      maxEntries: this.options.maxEntries,
+      hits: this.hits,
+      misses: this.misses,
+      evictions: this.evictions,
+      hitRate: lookups === 0 ? 0 : Number((this.hits / lookups).toFixed(3)),
+      persistedTo: this.options.enabled ? this.options.filePath ?? null : null,
+      entriesByEndpoint
+    };
+  }
+
+  flush(): void {
+    if (this.persistTimer) {
+      clearTimeout(this.persistTimer);
+      this.persistTimer = null;
+    }
+    this.persist();
+  }
+
+  private schedulePersist(): void {
+    if (!this.options.filePath || this.persistTimer) return;
+
+    // Batch writes so a burst of requests only touches the disk once
+    this.persistTimer = setTimeout(() => {
+      this.persistTimer = null;
+      this.persist();
+    }, 1000);
+    this.persistTimer.unref();
+  }
+
+  private persist(): void {
+    if (!this.options.enabled || !this.options.filePath) return;
+
+    try {
+      const now = Date.now();
+      const live = [...this.entries].filter(([, entry]) => entry.expiresAt > now);
+      fs.mkdirSync(path.dirname(this.options.filePath), { recursive: true });
+      fs.writeFileSync(this.options.filePath, JSON.stringify(live));
+    } catch (error) {
+      logger.error('Failed to persist response cache', { filePath: this.options.filePath, error });
+    }
+  }
+
+  private load(): void {
+    const filePath = this.options.filePath!;
+    if (!fs.existsSync(filePath)) return;
+
+    try {
+      const stored = JSON.parse(fs.readFileSync(filePath, 'utf8')) as Array<[string, CacheEntry]>;
+      const now = Date.now();
+      for (const [key, entry] of stored) {
+        if (entry.expiresAt > now) {
+          this.entries.set(key, entry);
+        }
+      }
+      while (this.entries.size > this.options.maxEntries) {
+        const oldestKey = this.entries.keys().next().value;
+        if (oldestKey === undefined) break;
+        this.entries.delete(oldestKey);
+      }
+    } catch (error) {
+      logger.warn('Ignoring unreadable response cache file', { filePath, error });
+    }
+  }
+} 
\ No newline at end of file
@@ -0,0 +1,258 @@
+import { ArtworkDetails } from '../types.js';
+import { collectionPageUrl } from '../utils/collectionPageUrl.js';
+import { validYear } from '../api/timeline.js';
+
+type ArtObject = ArtworkDetails['artObject'];
+type Culture = 'nl' | 'en';
+
+export const CITATION_FORMATS = ['bibtex', 'csl-json', 'ris', 'chicago', 'mla'] as const;
+export type CitationFormat = typeof CITATION_FORMATS[number];
+
+export interface CitationOptions {
+  culture: Culture;
+  accessed: Date;
+}
+
+interface PersonName {
+  family?: string;
+  given?: string;
+  particle?: string;             // "van", "de", "van der": kept with the family name when sorting
+  literal?: string;              // Names that cannot be split, such as workshops
+}
+
+const MUSEUM = 'Rijksmuseum';
+const MUSEUM_CITY = 'Amsterdam';
+const MONTHS = ['Jan.', 'Feb.', 'Mar.', 'Apr.', 'May', 'June', 'July', 'Aug.', 'Sept.', 'Oct.', 'Nov.', 'Dec.'];
+
+// Makers the museum records as unknown are left out of the author list
+const UNKNOWN_MAKERS = new Set(['anonymous', 'anoniem', 'unknown', 'onbekend']);
+
+/**
+ * Formats citations for one or more artworks. Text formats put one citation
+ * per paragraph; CSL-JSON returns a single array so it can be imported as is.
+ */
+export function formatCitations(artObjects: ArtObject[], format: CitationFormat, options: CitationOptions): string {
+  switch (format) {
+    case 'bibtex':
+      return artObjects.map(artObject => toBibtex(artObject, options)).join('\n\n');
+    case 'csl-json':
+      return JSON.stringify(artObjects.map(artObject => toCslJson(artObject, options)), null, 2);
+    case 'ris':
+      return artObjects.map(artObject => toRis(artObject, options)).join('\n\n');
+    case 'chicago':
+      return artObjects.map(artObject => toChicago(artObject, options)).join('\n\n');
+    case 'mla':
+      return artObjects.map(artObject => toMla(artObject, options)).join('\n\n');
+  }
+}
+
+function toBibtex(artObject: ArtObject, { culture, accessed }: CitationOptions): string {
+  const names = makersOf(artObject);
+  const date = dateOf(artObject);
+  const year = yearOf(artObject);
+
+  // A date such as "c. 1660" does not fit the year field, so it goes in the note
+  const note = [
+    date && String(year) !== date ? date : null,
+    sentenceCase(artObject.physicalMedium),
+    `Object number ${artObject.objectNumber}`,
+    artObject.acquisition?.creditLine
+  ].filter(Boolean).join('. ');
+
+  const fields: Array<[string, string | number | null | undefined]> = [
+    ['author', names.length ? names.map(name => bibtexName(name)).join(' and ') : null],
+    ['title', artObject.title],
+    ['year', year],
+    ['howpublished', `${MUSEUM}, ${MUSEUM_CITY}`],
+    ['note', note],
+    ['url', collectionPageUrl(artObject.objectNumber, culture)],
+    ['urldate', isoDate(accessed)]
+  ];
+
+  const body = fields
+    .filter(([, value]) => value !== null && value !== undefined && value !== '')
+    // URLs are read verbatim and names are escaped as they are built, around their grouping braces
+    .map(([key, value]) => `  ${key} = {${key === 'url' || key === 'author' ? value : escapeBibtex(String(value))}}`)
+    .join(',\n');
+  return `@misc{rijksmuseum-${artObject.objectNumber.replace(/[^A-Za-z0-9-]/g, '-')},\n${body}\n}`;
+}
+
+function toCslJson(artObject: ArtObject, { culture, accessed }: CitationOptions) {
+  const year = yearOf(artObject);
+  const date = dateOf(artObject);
+
+  return {
+    id: `rijksmuseum-${artObject.objectNumber}`,
+    type: 'graphic',
+    title: artObject.title,
+    author: makersOf(artObject).map(name => name.literal
+      ? { literal: name.literal }
+      : {
+        family: name.family,
+        given: name.given,
+        ...(name.particle ? { 'non-dropping-particle': name.particle } : {})
+      }),
+    ...(year !== null ? {
+      issued: {
+        'date-parts': [[year]],
+        ...(date && String(year) !== date ? { literal: date } : {}),
+        ...(/\b(c\.|ca\.|circa)/i.test(date ?? '') ? { circa: true } : {})
+      }
+    } : {}),
+    medium: artObject.physicalMedium || undefined,
+    archive: MUSEUM,
+    'archive-place': MUSEUM_CITY,
+    'call-number': artObject.objectNumber,
+    note: artObject.acquisition?.creditLine || undefined,
+    URL: collectionPageUrl(artObject.objectNumber, culture),
+    accessed: { 'date-parts': [[accessed.getFullYear(), accessed.getMonth() + 1, accessed.getDate()]] },
+    language: culture
+  };
+}
+
+function toRis(artObject: ArtObject, { culture, accessed }: CitationOptions): string {
+  const year = yearOf(artObject);
+  const lines: Array<[string, string | number | null | undefined]> = [
+    ['TY', 'ART'],
+    ...makersOf(artObject).map((name): [string, string] => ['AU', invertedName(name)]),
+    ['TI', artObject.title],
+    ['PY', year],
+    ['DA', dateOf(artObject)],
+    ['M3', artObject.physicalMedium],
+    ['CN', artObject.objectNumber],
+    ['DP', MUSEUM],
+    ['CY', MUSEUM_CITY],
+    ['N1', artObject.acquisition?.creditLine],
+    ['UR', collectionPageUrl(artObject.objectNumber, culture)],
+    ['Y2', isoDate(accessed).replace(/-/g, '/')],
+    ['LA', culture],
+    ['ER', '']
+  ];
+
+  return lines
+    .filter(([tag, value]) => tag === 'ER' || (value !== null && value !== undefined && value !== ''))
+    .map(([tag, value]) => `${tag}  - ${value ?? ''}`)
+    .join('\n');
+}
+
+/**
+ * Chicago (17th edition) bibliography entry for a work of art:
+ * Maker. Title. Date. Medium. Museum, City, object number. URL.
+ */
+function toChicago(artObject: ArtObject, { culture }: CitationOptions): string {
+  const names = makersOf(artObject);
+  return [
+    names.length ? joinNames(names, 'and') : null,
+    artObject.title,
+    dateOf(artObject),
+    sentenceCase(artObject.physicalMedium),
+    `${MUSEUM}, ${MUSEUM_CITY}, ${artObject.objectNumber}`,
+    artObject.acquisition?.creditLine,
+    collectionPageUrl(artObject.objectNumber, culture)
+  ].filter(Boolean).map(part => terminate(part as string)).join(' ');
+}
+
+/**
+ * MLA (9th edition) entry for a work of art:
+ * Maker. Title. Date, Museum, City. Medium. URL. Accessed date.
+ */
+function toMla(artObject: ArtObject, { culture, accessed }: CitationOptions): string {
+  const names = makersOf(artObject);
+  // MLA lists two makers in full and shortens three or more to "et al."
+  const makers = names.length > 2 ? `${invertedName(names[0])}, et al` : names.length ? joinNames(names, 'and') : null;
+  const publication = [dateOf(artObject), MUSEUM, MUSEUM_CITY].filter(Boolean).join(', ');
+
+  return [
+    makers,
+    artObject.title,
+    publication,
+    sentenceCase(artObject.physicalMedium),
+    collectionPageUrl(artObject.objectNumber, culture).replace(/^https?:\/\//, ''),
+    `Accessed ${accessed.getDate()} ${MONTHS[accessed.getMonth()]} ${accessed.getFullYear()}`
+  ].filter(Boolean).map(part => terminate(part as string)).join(' ');
+}
+
+/**
+ * Splits principal makers into name parts. The museum's unFixedName puts the
+ * family name first ("Rijn, Rembrandt van"), with lowercase particles at the end.
+ */
+function makersOf(artObject: ArtObject): PersonName[] {
+  const makers = artObject.principalMakers?.length
+    ? artObject.principalMakers
+    : [{ name: artObject.principalOrFirstMaker, unFixedName: '' }];
+
+  return makers
+    .filter(maker => maker.name && !UNKNOWN_MAKERS.has(maker.name.toLowerCase()))
+    .map(maker => {
+      const [family, rest] = (maker.unFixedName ?? '').split(/,\s*/, 2);
+      if (!family || !rest) {
+        return { literal: maker.name };
+      }
+      const words = rest.split(/\s+/);
+      const particleStart = words.findIndex((word, index) => index > 0 && /^[a-z]/.test(word));
+      return particleStart === -1
+        ? { family, given: rest }
+        : { family, given: words.slice(0, particleStart).join(' '), particle: words.slice(particleStart).join(' ') };
+    });
+}
+
+function invertedName(name: PersonName): string {
+  if (name.literal) return name.literal;
+  return `${name.family}, ${[name.given, name.particle].filter(Boolean).join(' ')}`;
+}
+
+function naturalName(name: PersonName): string {
+  if (name.literal) return name.literal;
+  return [name.given, name.particle, name.family].filter(Boolean).join(' ');
+}
+
+// Literal names are braced so BibTeX does not split them into first and last names
+function bibtexName(name: PersonName): string {
+  return name.literal ? `{${escapeBibtex(name.literal)}}` : escapeBibtex(invertedName(name));
+}
+
+/** First maker inverted for alphabetizing, the others in natural order. */
+function joinNames(names: PersonName[], conjunction: string): string {
+  const [first, ...others] = names;
+  if (others.length === 0) return invertedName(first);
+  const rest = others.map(naturalName);
+  const last = rest.pop();
+  return [invertedName(first), ...rest].join(', ') + `, ${conjunction} ${last}`;
+}
+
+// Undated artworks are left without a year rather than cited as year 0
+function yearOf(artObject: ArtObject): number | null {
+  const dating = artObject.dating;
+  return validYear(dating?.sortingDate) ?? validYear(dating?.yearEarly);
+}
+
+function dateOf(artObject: ArtObject): string | null {
+  const date = artObject.dating?.presentingDate?.trim();
+  return date && date !== '0' ? date : null;
+}
+
+function isoDate(date: Date): string {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+}
+
+function sentenceCase(value: string | null | undefined): string | null {
+  return value ? value.charAt(0).toUpperCase() + value.slice(1) : null;
+}
+
+function terminate(part: string): string {
+  return /[.!?]$/.test(part) ? part : `${part}.`;
+}
+
+// Braces must stay balanced inside a field, and backslash, tilde and caret are commands or accents in TeX
+const BIBTEX_ESCAPES: Record<string, string> = {
+  '\\': '\\textbackslash{}',
+  '{': '\\{',
+  '}': '\\}',
+  '~': '\\textasciitilde{}',
+  '^': '\\textasciicircum{}'
+};
+
+function escapeBibtex(value: string): string {
+  // One pass, so the braces of an inserted command are not escaped again
+  return value.replace(/[\\{}~^&%$#_]/g, char => BIBTEX_ESCAPES[char] ?? `\\${char}`);
+} 
\ No newline at end of file
@@ -0,0 +1,244 @@
+import fs from 'fs';
+import path from 'path';
+import { ArtworkDetails, LocalCollection, LocalCollectionItem, LocalCollectionSummary } from '../types.js';
+import { collectionPageUrl } from '../utils/collectionPageUrl.js';
+import { logger } from '../observability/Logger.js';
+
+type ArtObject = ArtworkDetails['artObject'];
+type Culture = 'nl' | 'en';
+
+export interface CollectionOptions {
+  filePath?: string;
+}
+
+export interface ItemAnnotation {
+  notes?: string;
+  tags?: string[];
+}
+
+// art://collection/popular is the museum's own list, so no local collection may take its name
+const RESERVED_SLUGS = new Set(['popular']);
+
+const LOCAL_USER: LocalCollection['user'] = {
+  id: 0,
+  name: 'local',
+  lang: 'en',
+  avatarUrl: null,
+  headerUrl: null,
+  initials: 'L'
+};
+
+/**
+ * Personal collections kept by the server itself rather than in Rijksstudio,
+ * optionally persisted to a JSON file. Collections are looked up by name or
+ * slug, so "Dutch Skies" and "dutch-skies" refer to the same collection.
+ *
+ * Unlike the cache and the index, collections cannot be rebuilt from the API,
+ * so every change is written to disk straight away.
+ */
+export class PersonalCollections {
+  private collections = new Map<string, LocalCollection>();
+
+  constructor(private readonly options: CollectionOptions) {
+    if (this.options.filePath) {
+      this.load();
+    }
+  }
+
+  get persistedTo(): string | null {
+    return this.options.filePath ?? null;
+  }
+
+  static slugify(name: string): string {
+    return name
+      .normalize('NFD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-+|-+$/g, '');
+  }
+
+  static uriOf(slug: string): string {
+    return `art://collection/${encodeURIComponent(slug)}`;
+  }
+
+  list(): LocalCollectionSummary[] {
+    return [...this.collections.values()]
+      .sort((a, b) => a.name.localeCompare(b.name))
+      .map(({ setItems, ...summary }) => summary);
+  }
+
+  find(reference: string): LocalCollection | undefined {
+    return this.collections.get(PersonalCollections.slugify(reference));
+  }
+
+  get(reference: string): LocalCollection {
+    const collection = this.find(reference);
+    if (!collection) {
+      throw new Error(`No local collection named "${reference}". Use list_collections to see the existing ones or create_collection to start one.`);
+    }
+    return collection;
+  }
+
+  create(name: string, description?: string): LocalCollection {
+    const slug = PersonalCollections.slugify(name);
+    if (!slug) {
+      throw new Error(`Collection name "${name}" must contain at least one letter or digit`);
+    }
+    if (RESERVED_SLUGS.has(slug)) {
+      throw new Error(`Collection name "${name}" is reserved, choose another name`);
+    }
+    if (this.collections.has(slug)) {
+      throw new Error(`A local collection named "${this.collections.get(slug)!.name}" already exists`);
+    }
+
+    const now = new Date().toISOString();
+    const collection: LocalCollection = {
+      links: { overview: PersonalCollections.uriOf(slug), web: null },
+      id: slug,
+      count: 0,
+      type: 'local',
+      name: name.trim(),
+      slug,
+      description: description?.trim() || null,
+      user: LOCAL_USER,
+      setItems: [],
+      createdOn: now,
+      updatedOn: now
+    };
+    this.collections.set(slug, collection);
+    this.persist();
+    return collection;
+  }
+
+  /**
+   * Adds artworks to the end of a collection. Artworks already in it keep
+   * their place: their notes are replaced if new notes are given and the new
+   * tags are added to the existing ones.
+   */
+  addItems(reference: string, artObjects: ArtObject[], culture: Culture, annotation: ItemAnnotation = {}) {
+    const collection = this.get(reference);
+    const now = new Date().toISOString();
+    const tags = this.normalizeTags(annotation.tags);
+    const added: string[] = [];
+    const updated: string[] = [];
+
+    for (const artObject of artObjects) {
+      const existing = collection.setItems.find(item => item.objectNumber === artObject.objectNumber);
+      if (existing) {
+        if (annotation.notes !== undefined) existing.notes = annotation.notes || null;
+        existing.tags = [...new Set([...existing.tags, ...tags])];
+        updated.push(artObject.objectNumber);
+      } else {
+        collection.setItems.push(this.toItem(collection, artObject, culture, annotation.notes, tags, now));
+        added.push(artObject.objectNumber);
+      }
+    }
+
+    this.touch(collection, now);
+    return { added, updated };
+  }
+
+  removeItems(reference: string, objectNumbers: string[]) {
+    const collection = this.get(reference);
+    const requested = new Set(objectNumbers);
+    const removed = collection.setItems.filter(item => requested.has(item.objectNumber)).map(item => item.objectNumber);
+    const notFound = objectNumbers.filter(objectNumber => !removed.includes(objectNumber));
+
+    if (removed.length > 0) {
+      collection.setItems = collection.setItems.filter(item => !requested.has(item.objectNumber));
+      this.touch(collection, new Date().toISOString());
+    }
+    return { removed, notFound };
+  }
+
+  private toItem(
+    collection: LocalCollection,
+    artObject: ArtObject,
+    culture: Culture,
+    notes: string | undefined,
+    tags: string[],
+    addedOn: string
+  ): LocalCollectionItem {
+    const { objectNumber, webImage } = artObject;
+    return {
+      links: {
+        artobject: `art://artwork/${encodeURIComponent(objectNumber)}`,
+        web: collectionPageUrl(objectNumber, culture)
+      },
+      id: `${collection.id}-${objectNumber}`,
+      objectNumber,
+      relation: 'none',
+      relationDescription: '',
+      cropped: false,
+      cropX: 0,
+      cropY: 0,
+      cropWidth: webImage?.width ?? 0,
+      cropHeight: webImage?.height ?? 0,
+      origWidth: webImage?.width ?? 0,
+      origHeight: webImage?.height ?? 0,
+      image: webImage ? {
+        guid: webImage.guid,
+        parentObjectNumber: objectNumber,
+        cdnUrl: webImage.url,
+        cropX: 0,
+        cropY: 0,
+        width: webImage.width,
+        height: webImage.height,
+        offsetPercentageX: webImage.offsetPercentageX,
+        offsetPercentageY: webImage.offsetPercentageY
+      } : null,
+      title: artObject.title,
+      principalOrFirstMaker: artObject.principalOrFirstMaker,
+      notes: notes || null,
+      tags,
+      addedOn
+    };
+  }
+
+  private normalizeTags(tags: string[] = []): string[] {
+    return [...new Set(tags.map(tag => tag.trim().toLowerCase()).filter(Boolean))];
+  }
+
+  private touch(collection: LocalCollection, now: string): void {
+    collection.count = collection.setItems.length;
+    collection.updatedOn = now;
+    this.persist();
+  }
+
+  private persist(): void {
+    if (!this.options.filePath) return;
+
+    // Written next to the target and renamed, so a crash never leaves half a file
+    const filePath = this.options.filePath;
+    const tempPath = `${filePath}.tmp`;
+    try {
+      fs.mkdirSync(path.dirname(filePath), { recursive: true });
+      fs.writeFileSync(tempPath, JSON.stringify([...this.collections.values()], null, 2));
+      fs.renameSync(tempPath, filePath);
+    } catch (error) {
+      logger.error('Failed to persist local collections', { filePath, error });
+    }
+  }
+
+  private load(): void {
+    const filePath = this.options.filePath!;
+    if (!fs.existsSync(filePath)) return;
+
+    try {
+      const stored = JSON.parse(fs.readFileSync(filePath, 'utf8')) as LocalCollection[];
+      for (const collection of stored) {
+        this.collections.set(collection.slug, collection);
+      }
+    } catch (error) {
+      // Set the file aside rather than overwrite it with the next change
+      const backupPath = `${filePath}.unreadable`;
+      logger.warn('Ignoring unreadable local collections file', { filePath, movedTo: backupPath, error });
+      try {
+        fs.renameSync(filePath, backupPath);
+      } catch {
+        // Persisting will report the problem if the file is still in the way
+      }
+    }
+  }
+} 
\ No newline at end of file
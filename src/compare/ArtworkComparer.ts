@@ -0,0 +1,186 @@
+import { RijksmuseumApiClient } from '../api/RijksmuseumApiClient.js';
+import { validYear } from '../api/timeline.js';
+import {
+  ArtworkComparison,
+  ArtworkDetails,
+  CompareArtworksArguments,
+  ComparedAcquisition,
+  ComparedDating,
+  FieldComparison,
+  PaletteColor,
+  ValueComparison
+} from '../types.js';
+import { earthMoversDistance, normalizeHex } from '../palette/paletteDistance.js';
+import { mapWithConcurrency } from '../utils/mapWithConcurrency.js';
+
+type ArtObject = ArtworkDetails['artObject'];
+
+const DETAILS_CONCURRENCY = 4;
+const DOMINANT_COLORS = 5;
+
+/**
+ * Compares the catalogue records of a handful of artworks field by field. Each
+ * field lists every artwork's own values and splits them into values shared by
+ * all artworks, values shared by some and values unique to one artwork.
+ */
+export class ArtworkComparer {
+  constructor(private readonly apiClient: RijksmuseumApiClient) {}
+
+  async compare({ objectNumbers, culture = 'en' }: CompareArtworksArguments): Promise<ArtworkComparison> {
+    const distinct = [...new Set(objectNumbers.map(objectNumber => objectNumber.trim()))];
+    if (distinct.length < 2) {
+      throw new Error('At least two different object numbers are required for a comparison');
+    }
+
+    const details = await mapWithConcurrency(distinct, DETAILS_CONCURRENCY, async objectNumber => {
+      try {
+        return await this.apiClient.getArtworkDetails(objectNumber, culture);
+      } catch (error) {
+        // Name the artwork, since the comparison cannot go ahead without it
+        throw new Error(`Could not load artwork ${objectNumber}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    });
+    const artObjects = details.map(({ artObject }) => artObject);
+
+    const dating = this.compareField(artObjects, artObject => this.datingOf(artObject), value => value.date ? [value.date] : []);
+    const colors = this.compareField(artObjects, artObject => this.dominantColors(artObject), palette => palette.map(color => color.hex));
+
+    return {
+      artworks: artObjects.map(artObject => ({
+        objectNumber: artObject.objectNumber,
+        title: artObject.title,
+        principalOrFirstMaker: artObject.principalOrFirstMaker,
+        webImage: artObject.webImage?.url ?? null
+      })),
+      makers: this.compareLists(artObjects, artObject => artObject.principalMakers?.length
+        ? artObject.principalMakers.map(maker => maker.name)
+        : [artObject.principalOrFirstMaker].filter(Boolean)),
+      dating: { ...dating, ...this.summarizeDating(Object.values(dating.byArtwork)) },
+      objectTypes: this.compareLists(artObjects, artObject => artObject.objectTypes ?? []),
+      materials: this.compareLists(artObjects, artObject => artObject.materials ?? []),
+      techniques: this.compareLists(artObjects, artObject => artObject.techniques ?? []),
+      dimensions: this.compareLists(artObjects, artObject => (artObject.dimensions ?? []).map(dimension =>
+        [dimension.part, dimension.type, dimension.value, dimension.unit].filter(Boolean).join(' ')
+      )),
+      colors: { ...colors, distances: this.paletteDistances(colors.byArtwork) },
+      iconclass: this.compareLists(artObjects, artObject => artObject.classification?.iconClassIdentifier ?? []),
+      acquisition: this.compareField(artObjects, artObject => this.acquisitionOf(artObject), value => value.method ? [value.method] : [])
+    };
+  }
+
+  private compareLists(artObjects: ArtObject[], extract: (artObject: ArtObject) => string[]): FieldComparison<string[]> {
+    return this.compareField(artObjects, artObject => [...new Set(extract(artObject))], values => values);
+  }
+
+  /**
+   * Collects each artwork's value for a field and splits the comparable keys of
+   * those values (`keysOf`) by how many artworks they occur on.
+   */
+  private compareField<T>(
+    artObjects: ArtObject[],
+    extract: (artObject: ArtObject) => T,
+    keysOf: (value: T) => string[]
+  ): FieldComparison<T> {
+    const byArtwork: Record<string, T> = {};
+    const keys = new Map<string, string[]>();
+    for (const artObject of artObjects) {
+      const value = extract(artObject);
+      byArtwork[artObject.objectNumber] = value;
+      keys.set(artObject.objectNumber, keysOf(value));
+    }
+    return { byArtwork, ...this.splitValues(keys) };
+  }
+
+  private splitValues(keysByArtwork: Map<string, string[]>): ValueComparison {
+    // Values are matched case-insensitively but reported as first written
+    const occurrences = new Map<string, { value: string; objectNumbers: string[] }>();
+    for (const [objectNumber, values] of keysByArtwork) {
+      for (const value of values) {
+        const key = value.toLowerCase();
+        const entry = occurrences.get(key) ?? { value, objectNumbers: [] };
+        if (!entry.objectNumbers.includes(objectNumber)) entry.objectNumbers.push(objectNumber);
+        occurrences.set(key, entry);
+      }
+    }
+
+    const comparison: ValueComparison = { shared: [], partlyShared: [], unique: {} };
+    for (const objectNumber of keysByArtwork.keys()) {
+      comparison.unique[objectNumber] = [];
+    }
+    for (const { value, objectNumbers } of occurrences.values()) {
+      if (objectNumbers.length === keysByArtwork.size) {
+        comparison.shared.push(value);
+      } else if (objectNumbers.length > 1) {
+        comparison.partlyShared.push({ value, objectNumbers });
+      } else {
+        comparison.unique[objectNumbers[0]].push(value);
+      }
+    }
+    return comparison;
+  }
+
+  private datingOf(artObject: ArtObject): ComparedDating {
+    const dating = artObject.dating;
+    return {
+      date: dating?.presentingDate || null,
+      // 0 means undated, so it must not stand in for a year
+      yearEarly: validYear(dating?.yearEarly) ?? validYear(dating?.sortingDate),
+      yearLate: validYear(dating?.yearLate) ?? validYear(dating?.sortingDate)
+    };
+  }
+
+  private summarizeDating(datings: ComparedDating[]) {
+    const dated = datings.filter((dating): dating is ComparedDating & { yearEarly: number; yearLate: number } =>
+      dating.yearEarly !== null && dating.yearLate !== null
+    );
+    if (dated.length === 0) {
+      return { earliestYear: null, latestYear: null, spanYears: null, overlapping: false };
+    }
+
+    const earliestYear = Math.min(...dated.map(dating => dating.yearEarly));
+    const latestYear = Math.max(...dated.map(dating => dating.yearLate));
+    // Ranges overlap when the latest start is no later than the earliest end
+    const latestStart = Math.max(...dated.map(dating => dating.yearEarly));
+    const earliestEnd = Math.min(...dated.map(dating => dating.yearLate));
+
+    return {
+      earliestYear,
+      latestYear,
+      spanYears: latestYear - earliestYear,
+      overlapping: dated.length === datings.length && latestStart <= earliestEnd
+    };
+  }
+
+  private dominantColors(artObject: ArtObject): PaletteColor[] {
+    return (artObject.normalized32Colors ?? [])
+      .filter(color => color.percentage > 0)
+      .map(color => ({ hex: normalizeHex(color.hex), weight: color.percentage }))
+      .sort((a, b) => b.weight - a.weight)
+      .slice(0, DOMINANT_COLORS);
+  }
+
+  private paletteDistances(palettes: Record<string, PaletteColor[]>) {
+    const entries = Object.entries(palettes).filter(([, palette]) => palette.length > 0);
+    const distances: Array<{ from: string; to: string; distance: number }> = [];
+    for (let i = 0; i < entries.length; i++) {
+      for (let j = i + 1; j < entries.length; j++) {
+        distances.push({
+          from: entries[i][0],
+          to: entries[j][0],
+          distance: Number(earthMoversDistance(entries[i][1], entries[j][1]).toFixed(2))
+        });
+      }
+    }
+    return distances;
+  }
+
+  private acquisitionOf(artObject: ArtObject): ComparedAcquisition {
+    const acquisition = artObject.acquisition;
+    const year = acquisition?.date ? Number.parseInt(acquisition.date.slice(0, 4), 10) : NaN;
+    return {
+      method: acquisition?.method || null,
+      year: Number.isNaN(year) ? null : year,
+      creditLine: acquisition?.creditLine || null
+    };
+  }
+} 
\ No newline at end of file
@@ -1,17 +1,127 @@
 import dotenv from 'dotenv';
+import os from 'os';
+import path from 'path';
+import { CacheOptions } from '../cache/ResponseCache.js';
+import { RetryOptions } from '../api/RetryPolicy.js';
+import { RateLimitOptions } from '../api/RateLimiter.js';
+import { DEFAULT_BASE_URL } from '../api/RijksmuseumApiClient.js';
+import { HttpTransportOptions } from '../transport/HttpTransportServer.js';
+import { ImageOptions } from '../images/encodeJpeg.js';
+import { LocalIndexOptions } from '../localIndex/LocalCollectionIndex.js';
+import { SubscriptionOptions } from '../subscriptions/ResourceSubscriptions.js';
+import { CollectionOptions } from '../collections/PersonalCollections.js';
+import { LOG_LEVELS, LogLevel, LogOptions } from '../observability/Logger.js';
+import { IiifOptions } from '../iiif/IiifManifestBuilder.js';
+
+export interface TransportOptions {
+  mode: 'stdio' | 'http';
+  http: HttpTransportOptions;
+}
 
 export class Config {
   private static instance: Config;
   private readonly apiKey: string;
+  private readonly baseUrl: string;
+  private readonly cacheOptions: CacheOptions;
+  private readonly retryOptions: RetryOptions;
+  private readonly rateLimitOptions: RateLimitOptions;
+  private readonly transportOptions: TransportOptions;
+  private readonly imageOptions: ImageOptions;
+  private readonly indexOptions: LocalIndexOptions;
+  private readonly subscriptionOptions: SubscriptionOptions;
+  private readonly collectionOptions: CollectionOptions;
+  private readonly logOptions: LogOptions;
+  private readonly iiifOptions: IiifOptions;
 
   private constructor() {
     dotenv.config();
     
+    this.baseUrl = (process.env.RIJKSMUSEUM_API_BASE_URL || DEFAULT_BASE_URL).replace(/\/+$/, '');
+
+    // A key is only needed for the real museum API; stand-in servers accept anonymous requests
     const apiKey = process.env.RIJKSMUSEUM_API_KEY;
-    if (!apiKey) {
+    if (!apiKey && this.baseUrl === DEFAULT_BASE_URL) {
       throw new Error("RIJKSMUSEUM_API_KEY environment variable is required");
     }
-    this.apiKey = apiKey;
+    this.apiKey = apiKey ?? '';
+
+    const userSetsTtl = Config.readNumber('RIJKSMUSEUM_CACHE_TTL_USERSETS', 10 * 60);
+    this.cacheOptions = {
+      enabled: process.env.RIJKSMUSEUM_CACHE_ENABLED !== 'false',
+      maxEntries: Config.readNumber('RIJKSMUSEUM_CACHE_MAX_ENTRIES', 500),
+      filePath: process.env.RIJKSMUSEUM_CACHE_FILE || undefined,
+      ttlSeconds: {
+        search: Config.readNumber('RIJKSMUSEUM_CACHE_TTL_SEARCH', 60 * 60),
+        details: Config.readNumber('RIJKSMUSEUM_CACHE_TTL_DETAILS', 24 * 60 * 60),
+        tiles: Config.readNumber('RIJKSMUSEUM_CACHE_TTL_TILES', 7 * 24 * 60 * 60),
+        userSets: userSetsTtl,
+        // Follows the user set listing TTL unless set separately
+        userSetDetails: Config.readNumber('RIJKSMUSEUM_CACHE_TTL_USERSET_DETAILS', userSetsTtl)
+      }
+    };
+
+    this.retryOptions = {
+      maxRetries: Config.readNumber('RIJKSMUSEUM_MAX_RETRIES', 3),
+      baseDelayMs: Config.readNumber('RIJKSMUSEUM_RETRY_BASE_DELAY_MS', 500),
+      maxDelayMs: Config.readNumber('RIJKSMUSEUM_RETRY_MAX_DELAY_MS', 30000)
+    };
+
+    const requestsPerSecond = Config.readNumber('RIJKSMUSEUM_RATE_LIMIT_PER_SECOND', 10);
+    this.rateLimitOptions = {
+      requestsPerSecond,
+      burst: Config.readNumber('RIJKSMUSEUM_RATE_LIMIT_BURST', requestsPerSecond)
+    };
+
+    this.imageOptions = {
+      defaultMaxSize: Math.min(Config.readNumber('RIJKSMUSEUM_IMAGE_MAX_SIZE', 1024), 2048),
+      maxBytes: Config.readNumber('RIJKSMUSEUM_IMAGE_MAX_BYTES', 1024 * 1024)
+    };
+
+    // Giving the index a file implies enabling it
+    const indexFile = process.env.RIJKSMUSEUM_INDEX_FILE || undefined;
+    this.indexOptions = {
+      enabled: process.env.RIJKSMUSEUM_INDEX_ENABLED === 'true' || Boolean(indexFile),
+      filePath: indexFile
+    };
+
+    this.subscriptionOptions = {
+      pollIntervalSeconds: Config.readNumber('RIJKSMUSEUM_SUBSCRIPTION_POLL_SECONDS', 5 * 60)
+    };
+
+    // Collections are kept on disk by default; an empty value keeps them in memory only
+    const collectionsFile = process.env.RIJKSMUSEUM_COLLECTIONS_FILE ?? path.join(os.homedir(), '.rijksmuseum-mcp', 'collections.json');
+    this.collectionOptions = {
+      filePath: collectionsFile || undefined
+    };
+
+    const iiifBaseUrl = process.env.RIJKSMUSEUM_IIIF_BASE_URL || undefined;
+    if (iiifBaseUrl && !/^https?:\/\//.test(iiifBaseUrl)) {
+      throw new Error('RIJKSMUSEUM_IIIF_BASE_URL must be an http(s) URL');
+    }
+    this.iiifOptions = {
+      baseUrl: iiifBaseUrl
+    };
+
+    const logLevel = (process.env.LOG_LEVEL || 'info').toLowerCase();
+    if (!(LOG_LEVELS as string[]).includes(logLevel)) {
+      throw new Error(`Unsupported log level "${logLevel}", expected one of: ${LOG_LEVELS.join(', ')}`);
+    }
+    this.logOptions = {
+      level: logLevel as LogLevel
+    };
+
+    // CLI flags take precedence over environment variables
+    const mode = process.argv.includes('--http') ? 'http' : Config.readArg('--transport') ?? process.env.RIJKSMUSEUM_TRANSPORT ?? 'stdio';
+    if (mode !== 'stdio' && mode !== 'http') {
+      throw new Error(`Unsupported transport "${mode}", expected "stdio" or "http"`);
+    }
+    this.transportOptions = {
+      mode,
+      http: {
+        port: Config.parseNumber('--port', Config.readArg('--port') ?? process.env.PORT, 3000),
+        host: Config.readArg('--host') ?? process.env.HOST ?? '127.0.0.1'
+      }
+    };
   }
 
   static getInstance(): Config {
@@ -21,7 +131,72 @@ export class Config {
     return Config.instance;
   }
 
+  private static readNumber(name: string, defaultValue: number): number {
+    return Config.parseNumber(name, process.env[name], defaultValue);
+  }
+
+  private static parseNumber(name: string, raw: string | undefined, defaultValue: number): number {
+    if (raw === undefined || raw === '') {
+      return defaultValue;
+    }
+
+    const value = Number(raw);
+    if (!Number.isFinite(value) || value < 0) {
+      throw new Error(`${name} must be a non-negative number`);
+    }
+    return value;
+  }
+
+  private static readArg(name: string): string | undefined {
+    const index = process.argv.indexOf(name);
+    return index !== -1 ? process.argv[index + 1] : undefined;
+  }
+
   getApiKey(): string {
     return this.apiKey;
   }
+
+  getBaseUrl(): string {
+    return this.baseUrl;
+  }
+
+  getCacheOptions(): CacheOptions {
+    return this.cacheOptions;
+  }
+
+  getRetryOptions(): RetryOptions {
+    return this.retryOptions;
+  }
+
+  getRateLimitOptions(): RateLimitOptions {
+    return this.rateLimitOptions;
+  }
+
+  getTransportOptions(): TransportOptions {
+    return this.transportOptions;
+  }
+
+  getImageOptions(): ImageOptions {
+    return this.imageOptions;
+  }
+
+  getIndexOptions(): LocalIndexOptions {
+    return this.indexOptions;
+  }
+
+  getSubscriptionOptions(): SubscriptionOptions {
+    return this.subscriptionOptions;
+  }
+
+  getCollectionOptions(): CollectionOptions {
+    return this.collectionOptions;
+  }
+
+  getIiifOptions(): IiifOptions {
+    return this.iiifOptions;
+  }
+
+  getLogOptions(): LogOptions {
+    return this.logOptions;
+  }
 } 
\ No newline at end of file
@@ -1,5 +1,6 @@
 import { McpError, ErrorCode } from "@modelcontextprotocol/sdk/types.js";
 import axios from "axios";
+import { RijksmuseumApiError } from "./RijksmuseumApiError.js";
 
 export class ErrorHandler {
   static handleError(error: unknown): never {
@@ -27,6 +28,26 @@ export class ErrorHandler {
     );
   }
 
+  /**
+   * Names an error's kind for counting failures, e.g. "RijksmuseumApiError (404)"
+   * or "McpError (InvalidParams)". Plain errors are counted by their name.
+   */
+  static classify(error: unknown): string {
+    if (error instanceof RijksmuseumApiError) {
+      return `RijksmuseumApiError (${error.status ?? error.failure})`;
+    }
+
+    if (error instanceof McpError) {
+      return `McpError (${ErrorCode[error.code] ?? error.code})`;
+    }
+
+    if (axios.isAxiosError(error)) {
+      return `AxiosError (${error.response?.status ?? error.code ?? 'noResponse'})`;
+    }
+
+    return error instanceof Error ? error.name : 'unknown';
+  }
+
   static validateRequiredParam(param: unknown, paramName: string): void {
     if (param === undefined || param === null) {
       throw new McpError(
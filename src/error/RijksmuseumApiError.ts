@@ -0,0 +1,12 @@
+export type ApiFailure = 'status' | 'noResponse' | 'request';
+
+/**
+ * A request to the collection API that failed for good, after any retries.
+ * `status` is set when the museum answered with an error status.
+ */
+export class RijksmuseumApiError extends Error {
+  constructor(message: string, readonly failure: ApiFailure, readonly status?: number) {
+    super(message);
+    this.name = 'RijksmuseumApiError';
+  }
+} 
\ No newline at end of file
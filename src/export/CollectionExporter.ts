@@ -0,0 +1,77 @@
+import { RijksmuseumApiClient } from '../api/RijksmuseumApiClient.js';
+import { ArtworkDetails, CollectionExport, ExportCollectionArguments } from '../types.js';
+import { mapWithConcurrency } from '../utils/mapWithConcurrency.js';
+import { CatalogueInfo, toCsv, toJsonLd, toMarkdown } from './catalogueFormats.js';
+
+const DETAILS_CONCURRENCY = 4;
+
+/**
+ * Exports a user set or a search as a catalogue: gathers the object numbers,
+ * fetches every item's full details with bounded concurrency and writes them
+ * as CSV, schema.org JSON-LD or Markdown. Items whose details cannot be
+ * fetched are reported instead of failing the whole export.
+ */
+export class CollectionExporter {
+  constructor(private readonly apiClient: RijksmuseumApiClient) {}
+
+  async export(args: ExportCollectionArguments): Promise<CollectionExport> {
+    const { setId, format, culture = 'en', limit = 100, ...filters } = args;
+
+    const { info, objectNumbers, totalItems } = setId
+      ? await this.fromUserSet(setId, culture, limit)
+      : await this.fromSearch(filters, culture, limit);
+
+    const failed: CollectionExport['failed'] = [];
+    const details = await mapWithConcurrency(objectNumbers, DETAILS_CONCURRENCY, async objectNumber => {
+      try {
+        return (await this.apiClient.getArtworkDetails(objectNumber, culture)).artObject;
+      } catch (error) {
+        failed.push({ objectNumber, error: error instanceof Error ? error.message : String(error) });
+        return null;
+      }
+    });
+    const artObjects = details.filter((artObject): artObject is ArtworkDetails['artObject'] => artObject !== null);
+
+    const document = format === 'csv'
+      ? toCsv(artObjects, info)
+      : format === 'json-ld'
+        ? toJsonLd(artObjects, info)
+        : toMarkdown(artObjects, info);
+
+    return {
+      source: { kind: setId ? 'userset' : 'search', name: info.name, description: info.description, totalItems },
+      format,
+      exported: artObjects.length,
+      failed,
+      document
+    };
+  }
+
+  private async fromUserSet(setId: string, culture: 'nl' | 'en', limit: number) {
+    const { userSet, objectNumbers } = await this.apiClient.getUserSetObjectNumbers(setId, { culture, limit });
+    const info: CatalogueInfo = {
+      name: userSet.name,
+      description: userSet.description,
+      curator: userSet.user?.name ?? null,
+      culture
+    };
+    return { info, objectNumbers, totalItems: userSet.count };
+  }
+
+  private async fromSearch(filters: Omit<ExportCollectionArguments, 'setId' | 'format' | 'culture' | 'limit'>, culture: 'nl' | 'en', limit: number) {
+    const result = await this.apiClient.searchAllArtworks({ ...filters, culture, limit });
+
+    // Name the catalogue after the filters that produced it
+    const criteria = Object.entries({ ...filters, involvedMaker: result.resolvedMaker?.name ?? filters.involvedMaker })
+      .filter(([key, value]) => value !== undefined && value !== false && key !== 'resolveMaker')
+      .map(([key, value]) => `${key}: ${value}`)
+      .join(', ');
+    const info: CatalogueInfo = {
+      name: `Rijksmuseum search (${criteria})`,
+      description: null,
+      curator: null,
+      culture
+    };
+    return { info, objectNumbers: result.artworks.map(artwork => artwork.objectNumber), totalItems: result.totalCount };
+  }
+} 
\ No newline at end of file
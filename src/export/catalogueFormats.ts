@@ -0,0 +1,181 @@
+import { ArtworkDetails } from '../types.js';
+import { parseDimensions } from '../api/dimensions.js';
+import { collectionPageUrl } from '../utils/collectionPageUrl.js';
+
+type ArtObject = ArtworkDetails['artObject'];
+
+export interface CatalogueInfo {
+  name: string;
+  description: string | null;
+  curator: string | null;
+  culture: 'nl' | 'en';
+}
+
+const LIST_SEPARATOR = '; ';
+
+const CSV_COLUMNS: Array<[string, (artObject: ArtObject, info: CatalogueInfo) => string | number | null | undefined]> = [
+  ['objectNumber', artObject => artObject.objectNumber],
+  ['title', artObject => artObject.title],
+  ['maker', artObject => makerNames(artObject).join(LIST_SEPARATOR)],
+  ['date', artObject => artObject.dating?.presentingDate],
+  ['yearEarly', artObject => artObject.dating?.yearEarly],
+  ['yearLate', artObject => artObject.dating?.yearLate],
+  ['objectTypes', artObject => (artObject.objectTypes ?? []).join(LIST_SEPARATOR)],
+  ['materials', artObject => (artObject.materials ?? []).join(LIST_SEPARATOR)],
+  ['techniques', artObject => (artObject.techniques ?? []).join(LIST_SEPARATOR)],
+  ['physicalMedium', artObject => artObject.physicalMedium],
+  ['dimensions', artObject => dimensionLabels(artObject).join(LIST_SEPARATOR)],
+  ['productionPlaces', artObject => (artObject.productionPlaces ?? []).join(LIST_SEPARATOR)],
+  ['iconclass', artObject => (artObject.classification?.iconClassIdentifier ?? []).join(LIST_SEPARATOR)],
+  ['acquisitionMethod', artObject => artObject.acquisition?.method],
+  ['acquisitionDate', artObject => artObject.acquisition?.date],
+  ['creditLine', artObject => artObject.acquisition?.creditLine],
+  ['description', artObject => artObject.description],
+  ['image', artObject => artObject.webImage?.url],
+  ['url', (artObject, info) => collectionPageUrl(artObject.objectNumber, info.culture)]
+];
+
+/**
+ * One row per artwork with a header row, quoted per RFC 4180. Multi-valued
+ * fields are joined with "; ".
+ */
+export function toCsv(artObjects: ArtObject[], info: CatalogueInfo): string {
+  const rows = [
+    CSV_COLUMNS.map(([name]) => name),
+    ...artObjects.map(artObject => CSV_COLUMNS.map(([, value]) => value(artObject, info)))
+  ];
+  return rows.map(row => row.map(csvField).join(',')).join('\r\n') + '\r\n';
+}
+
+/**
+ * A schema.org Collection whose parts are VisualArtwork nodes, identified by
+ * their page on the museum website.
+ */
+export function toJsonLd(artObjects: ArtObject[], info: CatalogueInfo): string {
+  const collection = {
+    '@context': 'https://schema.org',
+    '@type': 'Collection',
+    name: info.name,
+    ...(info.description ? { description: info.description } : {}),
+    ...(info.curator ? { creator: { '@type': 'Person', name: info.curator } } : {}),
+    inLanguage: info.culture,
+    hasPart: artObjects.map(artObject => visualArtwork(artObject, info))
+  };
+  return JSON.stringify(collection, null, 2);
+}
+
+/**
+ * A printable catalogue: a heading per artwork with its web image, the key
+ * catalogue fields and the description.
+ */
+export function toMarkdown(artObjects: ArtObject[], info: CatalogueInfo): string {
+  const lines = [`# ${info.name}`, ''];
+  if (info.curator) lines.push(`Curated by ${info.curator}`, '');
+  if (info.description) lines.push(info.description, '');
+  lines.push(`${artObjects.length} artwork${artObjects.length === 1 ? '' : 's'}`, '');
+
+  artObjects.forEach((artObject, index) => {
+    lines.push(`## ${index + 1}. ${markdownText(artObject.title)}`, '');
+    if (artObject.webImage?.url) {
+      lines.push(`![${markdownText(artObject.title)}](${artObject.webImage.url})`, '');
+    }
+
+    const fields: Array<[string, string | null | undefined]> = [
+      ['Maker', makerNames(artObject).join(', ')],
+      ['Date', artObject.dating?.presentingDate],
+      ['Object type', (artObject.objectTypes ?? []).join(', ')],
+      ['Medium', artObject.physicalMedium],
+      ['Dimensions', dimensionLabels(artObject).join(', ')],
+      ['Object number', artObject.objectNumber],
+      ['Credit line', artObject.acquisition?.creditLine]
+    ];
+    for (const [label, value] of fields) {
+      if (value) lines.push(`- **${label}:** ${markdownText(value)}`);
+    }
+    lines.push(`- [View on rijksmuseum.nl](${collectionPageUrl(artObject.objectNumber, info.culture)})`, '');
+
+    if (artObject.description) {
+      lines.push(markdownText(artObject.description), '');
+    }
+  });
+
+  return lines.join('\n');
+}
+
+function visualArtwork(artObject: ArtObject, info: CatalogueInfo) {
+  const url = collectionPageUrl(artObject.objectNumber, info.culture);
+  const makers = (artObject.principalMakers ?? []).filter(maker => maker.name);
+  const main = (artObject.measurements ?? parseDimensions(artObject.dimensions ?? [])).main;
+  const sortingDate = artObject.dating?.sortingDate;
+
+  // Absent values are left undefined, which JSON.stringify drops
+  return {
+    '@type': 'VisualArtwork',
+    '@id': url,
+    url,
+    identifier: artObject.objectNumber,
+    name: artObject.title,
+    description: artObject.description || undefined,
+    creator: makers.length
+      ? makers.map(maker => ({
+        '@type': 'Person',
+        name: maker.name,
+        birthDate: maker.dateOfBirth || undefined,
+        deathDate: maker.dateOfDeath || undefined,
+        birthPlace: maker.placeOfBirth || undefined,
+        deathPlace: maker.placeOfDeath || undefined
+      }))
+      : undefined,
+    // dateCreated must be a date, so approximate datings fall back to the sorting year
+    dateCreated: /^\d{4}$/.test(artObject.dating?.presentingDate ?? '')
+      ? artObject.dating.presentingDate
+      : sortingDate ? String(sortingDate) : undefined,
+    temporalCoverage: artObject.dating?.presentingDate || undefined,
+    artform: artObject.objectTypes?.[0],
+    artMedium: artObject.materials?.length ? artObject.materials : undefined,
+    height: centimetres(main?.heightCm),
+    width: centimetres(main?.widthCm),
+    depth: centimetres(main?.depthCm),
+    locationCreated: artObject.productionPlaces?.length
+      ? artObject.productionPlaces.map(place => ({ '@type': 'Place', name: place }))
+      : undefined,
+    about: artObject.classification?.iconClassIdentifier?.length
+      ? artObject.classification.iconClassIdentifier.map(code => ({
+        '@type': 'DefinedTerm',
+        termCode: code,
+        inDefinedTermSet: 'https://iconclass.org'
+      }))
+      : undefined,
+    image: artObject.webImage?.url,
+    copyrightHolder: artObject.copyrightHolder || undefined,
+    creditText: artObject.acquisition?.creditLine || undefined,
+    inLanguage: info.culture
+  };
+}
+
+// CMT is the UN/CEFACT code for centimetres that schema.org QuantitativeValue.unitCode expects
+function centimetres(value: number | undefined) {
+  if (value === undefined) return undefined;
+  return { '@type': 'QuantitativeValue', value, unitText: 'cm', unitCode: 'CMT' };
+}
+
+function makerNames(artObject: ArtObject): string[] {
+  const names = (artObject.principalMakers ?? []).map(maker => maker.name).filter(Boolean);
+  return names.length ? names : [artObject.principalOrFirstMaker].filter(Boolean);
+}
+
+function dimensionLabels(artObject: ArtObject): string[] {
+  return (artObject.dimensions ?? []).map(dimension =>
+    [dimension.part, dimension.type, dimension.value, dimension.unit].filter(Boolean).join(' ')
+  );
+}
+
+function csvField(value: string | number | null | undefined): string {
+  const text = value === null || value === undefined ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function markdownText(value: string): string {
+  // Keep catalogue text from being read as Markdown syntax
+  return value.replace(/([\\`*_[\]<>])/g, '\\$1').replace(/\s*\n\s*/g, ' ');
+} 
\ No newline at end of file
@@ -63,9 +63,9 @@ For each work, include:
 - Year of creation
 - Title of the work
 - A brief description
-- The artist's age at the time of creation
+- The artist's age at the time of creation (the tool's "age" field, or "ageRange" for works dated over several years)
 
-Format the timeline as a visually appealing chronological progression, with clear spacing between different time periods. Use markdown formatting to enhance readability.
+Format the timeline as a visually appealing chronological progression, grouped by the early, middle and late phases the tool reports, with clear spacing between different time periods. Use markdown formatting to enhance readability.
 
 The data for this timeline will be provided by the get_artist_timeline tool. Please call this tool with the artist name "${artist}"${maxWorks ? ` and maxWorks=${maxWorks}` : ''} to get the artwork data, then create a beautiful visualization of the timeline.`
             }
@@ -1,8 +1,38 @@
 import { RijksmuseumApiClient } from "../api/RijksmuseumApiClient.js";
 import { ErrorHandler } from "../error/ErrorHandler.js";
+import { WebImageFetcher } from "../images/WebImageFetcher.js";
+import { ImageOptions } from "../images/encodeJpeg.js";
+import { TileStitcher } from "../images/TileStitcher.js";
+import { IiifManifestBuilder, IiifOptions, ImageSource } from "../iiif/IiifManifestBuilder.js";
+import { PersonalCollections } from "../collections/PersonalCollections.js";
+import { ServerMetrics } from "../observability/ServerMetrics.js";
+import { logger } from "../observability/Logger.js";
+import { SearchArtworkArguments } from "../types.js";
+
+type Culture = 'nl' | 'en';
+
+// Query parameters a saved search URI may carry, in the order of its template
+const SEARCH_PARAMETERS = ['q', 'involvedMaker', 'type', 'material', 'technique', 'century', 'color', 'sortBy'] as const;
+const SORT_ORDERS = ['relevance', 'objecttype', 'chronologic', 'achronologic', 'artist', 'artistdesc'];
+const SEARCH_PAGE_SIZE = 25;
+
+// Subscribed user sets are snapshotted in full, up to this many items
+const SNAPSHOT_MAX_ITEMS = 1000;
 
 export class ResourceHandler {
-  constructor(private apiClient: RijksmuseumApiClient) {}
+  private readonly webImageFetcher: WebImageFetcher;
+  private readonly manifestBuilder: IiifManifestBuilder;
+
+  constructor(
+    private apiClient: RijksmuseumApiClient,
+    private imageOptions: ImageOptions,
+    private collections: PersonalCollections,
+    private metrics: ServerMetrics,
+    iiifOptions: IiifOptions
+  ) {
+    this.webImageFetcher = new WebImageFetcher(imageOptions.maxBytes);
+    this.manifestBuilder = new IiifManifestBuilder(apiClient, new TileStitcher(imageOptions.maxBytes), iiifOptions);
+  }
 
   async listResources() {
     return {
@@ -11,32 +41,245 @@ export class ResourceHandler {
         name: "Popular Artworks",
         mimeType: "application/json",
         description: "Most viewed artworks in the collection"
+      }, {
+        uri: "art://server/stats",
+        name: "Server Statistics",
+        mimeType: "application/json",
+        description: "Tool call counts and latencies, collection API latency per endpoint, cache hit rates and errors by class since the server started"
+      }, ...this.collections.list().map(collection => ({
+        uri: collection.links.overview,
+        name: collection.name,
+        mimeType: "application/json",
+        description: collection.description ?? `Personal collection of ${collection.count} artwork(s)`
+      }))]
+    };
+  }
+
+  async listResourceTemplates() {
+    return {
+      resourceTemplates: [{
+        uriTemplate: "art://artwork/{objectNumber}{?culture}",
+        name: "Artwork",
+        mimeType: "application/json",
+        description: "Full details of an artwork by object number (e.g. SK-C-5). Add ?culture=nl for Dutch."
+      }, {
+        uriTemplate: "art://artwork/{objectNumber}/image",
+        name: "Artwork Image",
+        mimeType: "image/jpeg",
+        description: "The artwork's web image, downscaled to the server's image size limits"
+      }, {
+        uriTemplate: "art://artwork/{objectNumber}/manifest{?culture,imageSource}",
+        name: "Artwork IIIF Manifest",
+        mimeType: "application/ld+json",
+        description: "IIIF Presentation 3.0 manifest for an artwork. imageSource=tiles paints the canvas with zoom tiles instead of the web image."
+      }, {
+        uriTemplate: "art://artist/{name}",
+        name: "Artist",
+        mimeType: "application/json",
+        description: "An artist's life dates and first page of dated works. Free-text names are resolved to the museum's maker name."
+      }, {
+        uriTemplate: "art://userset/{setId}",
+        name: "User Set",
+        mimeType: "application/json",
+        description: "A Rijksstudio user set and its artworks. Subscribe to be notified when items are added or removed."
+      }, {
+        uriTemplate: "art://userset/{setId}/manifest{?culture,imageSource}",
+        name: "User Set IIIF Manifest",
+        mimeType: "application/ld+json",
+        description: "IIIF Presentation 3.0 manifest with one canvas per artwork in a user set (first 50 artworks)"
+      }, {
+        uriTemplate: "art://collection/{name}",
+        name: "Personal Collection",
+        mimeType: "application/json",
+        description: "A personal collection kept by this server, in the same shape as a user set, with each item's notes and tags"
+      }, {
+        uriTemplate: "art://search{?q,involvedMaker,type,material,technique,century,color,sortBy,culture}",
+        name: "Saved Search",
+        mimeType: "application/json",
+        description: "The first page of a collection search. Subscribe to be notified when its results change."
       }]
     };
   }
 
   async readResource(uri: string) {
     try {
-      switch (uri) {
-        case "art://collection/popular":
-          const popularArtworks = await this.apiClient.searchArtworks({
+      const { kind, segments, culture, searchParams } = this.parseUri(uri);
+
+      switch (kind) {
+        case "collection":
+          if (segments.length !== 1) break;
+          if (segments[0] !== "popular") {
+            return this.jsonContents(uri, { userSet: this.collections.get(segments[0]) });
+          }
+          const { artObjects: popularArtworks } = await this.apiClient.searchArtworks({
             ps: 10,
             sortBy: 'relevance',
             imgonly: true
           });
-          return {
-            contents: [{
-              uri,
-              mimeType: "application/json",
-              text: JSON.stringify(popularArtworks, null, 2)
-            }]
-          };
-
-        default:
-          throw new Error(`Resource not found: ${uri}`);
+          return this.jsonContents(uri, popularArtworks);
+
+        case "artwork":
+          if (segments.length === 1) {
+            const { artObject } = await this.apiClient.getArtworkDetails(segments[0], culture);
+            return this.jsonContents(uri, artObject);
+          }
+          if (segments.length === 2 && segments[1] === "image") {
+            return await this.readArtworkImage(uri, segments[0]);
+          }
+          if (segments.length === 2 && segments[1] === "manifest") {
+            const manifest = await this.manifestBuilder.forArtwork(segments[0], { culture, imageSource: this.imageSourceOf(searchParams) });
+            return this.jsonContents(uri, manifest, "application/ld+json");
+          }
+          break;
+
+        case "artist":
+          if (segments.length !== 1) break;
+          const timeline = await this.apiClient.getArtistTimeline(segments[0], { culture, pageSize: 25, resolve: true });
+          return this.jsonContents(uri, timeline);
+
+        case "userset":
+          if (segments.length === 2 && segments[1] === "manifest") {
+            const manifest = await this.manifestBuilder.forUserSet(segments[0], { culture, imageSource: this.imageSourceOf(searchParams) });
+            return this.jsonContents(uri, manifest, "application/ld+json");
+          }
+          if (segments.length !== 1) break;
+          const userSet = await this.apiClient.getUserSetDetails({ setId: segments[0], culture });
+          return this.jsonContents(uri, userSet);
+
+        case "server":
+          if (segments.length !== 1 || segments[0] !== "stats") break;
+          return this.jsonContents(uri, this.metrics.getStats(this.apiClient.getCacheStats()));
+
+        case "search":
+          if (segments.length !== 0) break;
+          const searchResults = await this.apiClient.searchArtworks({ ...this.toSearchArguments(searchParams), culture });
+          return this.jsonContents(uri, searchResults);
       }
+
+      throw new Error(`Resource not found: ${uri}`);
     } catch (error) {
+      const errorClass = ErrorHandler.classify(error);
+      this.metrics.recordError(errorClass);
+      logger.warn("Resource read failed", { uri, errorClass, error });
       ErrorHandler.handleError(error);
     }
   }
+
+  /**
+   * Reads a subscribable resource past the response cache and reduces it to a
+   * string that changes whenever its contents do: the item list of a user set
+   * or personal collection, or the match count and first page of a saved search.
+   */
+  async snapshot(uri: string): Promise<string> {
+    const { kind, segments, culture, searchParams } = this.parseUri(uri);
+
+    if (kind === "userset" && segments.length === 1) {
+      const { userSet, objectNumbers } = await this.apiClient.getUserSetObjectNumbers(segments[0], {
+        culture,
+        limit: SNAPSHOT_MAX_ITEMS,
+        fresh: true
+      });
+      return JSON.stringify({ updatedOn: userSet.updatedOn, count: userSet.count, objectNumbers: objectNumbers.sort() });
+    }
+
+    if (kind === "collection" && segments.length === 1 && segments[0] !== "popular") {
+      const { updatedOn, setItems } = this.collections.get(segments[0]);
+      return JSON.stringify({ updatedOn, objectNumbers: setItems.map(item => item.objectNumber) });
+    }
+
+    if (kind === "search" && segments.length === 0) {
+      const { count, artObjects } = await this.apiClient.searchArtworks(
+        { ...this.toSearchArguments(searchParams), culture },
+        { fresh: true }
+      );
+      return JSON.stringify({ count, objectNumbers: artObjects.map(artwork => artwork.objectNumber) });
+    }
+
+    throw new Error(`Resource cannot be subscribed to: ${uri}. Only art://userset/{setId}, art://collection/{name} and art://search resources support subscriptions.`);
+  }
+
+  /**
+   * Splits art://<kind>/<segment>/... into its parts. Segments are URI-decoded,
+   * so names with spaces can be written as art://artist/Rembrandt%20van%20Rijn.
+   */
+  private parseUri(uri: string): { kind: string; segments: string[]; culture: Culture; searchParams: URLSearchParams } {
+    let url: URL;
+    try {
+      url = new URL(uri);
+    } catch {
+      throw new Error(`Invalid resource URI: ${uri}`);
+    }
+    if (url.protocol !== "art:") {
+      throw new Error(`Resource not found: ${uri}`);
+    }
+
+    const culture = url.searchParams.get("culture") ?? "en";
+    if (culture !== "en" && culture !== "nl") {
+      throw new Error(`Unsupported culture "${culture}" in ${uri}, expected "en" or "nl"`);
+    }
+
+    const segments = url.pathname.split("/").filter(Boolean).map(segment => decodeURIComponent(segment));
+    return { kind: url.host, segments, culture, searchParams: url.searchParams };
+  }
+
+  private toSearchArguments(searchParams: URLSearchParams): SearchArtworkArguments {
+    const args: SearchArtworkArguments = { ps: SEARCH_PAGE_SIZE };
+
+    for (const [name, value] of searchParams) {
+      if (name === 'culture') continue;
+      if (!(SEARCH_PARAMETERS as readonly string[]).includes(name)) {
+        throw new Error(`Unsupported search parameter "${name}", expected one of: ${SEARCH_PARAMETERS.join(', ')}`);
+      }
+
+      if (name === 'century') {
+        const century = Number(value);
+        if (!Number.isInteger(century) || century < -1 || century > 21) {
+          throw new Error(`Invalid century "${value}", expected a number from -1 to 21`);
+        }
+        args.century = century;
+      } else if (name === 'sortBy') {
+        if (!SORT_ORDERS.includes(value)) {
+          throw new Error(`Invalid sortBy "${value}", expected one of: ${SORT_ORDERS.join(', ')}`);
+        }
+        args.sortBy = value as SearchArtworkArguments['sortBy'];
+      } else {
+        (args as Record<string, unknown>)[name] = value;
+      }
+    }
+    return args;
+  }
+
+  private async readArtworkImage(uri: string, objectNumber: string) {
+    const { artObject } = await this.apiClient.getArtworkDetails(objectNumber);
+    if (!artObject.webImage?.url) {
+      throw new Error(`Artwork ${objectNumber} has no image available`);
+    }
+
+    const image = await this.webImageFetcher.fetch(artObject.webImage.url, this.imageOptions.defaultMaxSize);
+    return {
+      contents: [{
+        uri,
+        mimeType: image.mimeType,
+        blob: image.data.toString('base64')
+      }]
+    };
+  }
+
+  private imageSourceOf(searchParams: URLSearchParams): ImageSource {
+    const imageSource = searchParams.get("imageSource") ?? "web";
+    if (imageSource !== "web" && imageSource !== "tiles") {
+      throw new Error(`Unsupported imageSource "${imageSource}", expected "web" or "tiles"`);
+    }
+    return imageSource;
+  }
+
+  private jsonContents(uri: string, value: unknown, mimeType = "application/json") {
+    return {
+      contents: [{
+        uri,
+        mimeType,
+        text: JSON.stringify(value, null, 2)
+      }]
+    };
+  }
 } 
\ No newline at end of file
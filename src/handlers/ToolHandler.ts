@@ -1,72 +1,339 @@
 import { CallToolRequest } from "@modelcontextprotocol/sdk/types.js";
 import { RijksmuseumApiClient } from "../api/RijksmuseumApiClient.js";
 import { ErrorHandler } from "../error/ErrorHandler.js";
-import { isSearchArtworkArguments, isOpenImageArguments, isGetUserSetDetailsArguments } from "../utils/typeGuards.js";
 import { SystemIntegration } from "../utils/SystemIntegration.js";
-import { GetUserSetsArguments, GetUserSetDetailsArguments } from "../types.js";
+import {
+  SearchArtworkToolArguments,
+  SearchAllArtworksArguments,
+  GetSearchFacetsArguments,
+  GetArtworkArguments,
+  GetArtworkDetailsArguments,
+  ArtworkDetails,
+  BilingualArtworkDetails,
+  GetArtworkThumbnailArguments,
+  GetArtworkRegionArguments,
+  CompareArtworksArguments,
+  GetIiifManifestArguments,
+  CiteArtworkArguments,
+  ExportCollectionArguments,
+  GetUserSetsArguments,
+  GetUserSetDetailsArguments,
+  CreateCollectionArguments,
+  AddToCollectionArguments,
+  RemoveFromCollectionArguments,
+  GetCollectionArguments,
+  GetArtistTimelineArguments,
+  FindByPaletteArguments,
+  SearchBySubjectArguments,
+  PostFilter,
+  LocalSearchArguments,
+  ResolveArtistArguments,
+  OpenImageArguments
+} from "../types.js";
+import { CacheEndpoint } from "../cache/ResponseCache.js";
+import { TOOL_DEFINITIONS, ToolDefinition } from "../tools/toolDefinitions.js";
+import { validateToolArguments } from "../tools/validateToolArguments.js";
+import { TileStitcher } from "../images/TileStitcher.js";
+import { WebImageFetcher } from "../images/WebImageFetcher.js";
+import { ImageOptions } from "../images/encodeJpeg.js";
+import { PaletteMatcher } from "../palette/PaletteMatcher.js";
+import { SubjectSearcher } from "../iconclass/SubjectSearcher.js";
+import { ArtworkComparer } from "../compare/ArtworkComparer.js";
+import { IiifManifestBuilder, IiifOptions } from "../iiif/IiifManifestBuilder.js";
+import { formatCitations } from "../citation/citations.js";
+import { CollectionExporter } from "../export/CollectionExporter.js";
+import { mapWithConcurrency } from "../utils/mapWithConcurrency.js";
+import { hasSizeFilter } from "../api/dimensions.js";
+import { parseDateExpression, yearRange } from "../api/dateRanges.js";
+import { LocalCollectionIndex } from "../localIndex/LocalCollectionIndex.js";
+import { PersonalCollections } from "../collections/PersonalCollections.js";
+import { ServerMetrics } from "../observability/ServerMetrics.js";
+import { logger } from "../observability/Logger.js";
 
 export class ToolHandler {
-  constructor(private apiClient: RijksmuseumApiClient) {}
+  private readonly definitions: Map<string, ToolDefinition>;
+  private readonly tileStitcher: TileStitcher;
+  private readonly webImageFetcher: WebImageFetcher;
+  private readonly paletteMatcher: PaletteMatcher;
+  private readonly subjectSearcher: SubjectSearcher;
+  private readonly artworkComparer: ArtworkComparer;
+  private readonly manifestBuilder: IiifManifestBuilder;
+  private readonly collectionExporter: CollectionExporter;
+
+  constructor(
+    private apiClient: RijksmuseumApiClient,
+    private imageOptions: ImageOptions,
+    private localIndex: LocalCollectionIndex,
+    private collections: PersonalCollections,
+    private metrics: ServerMetrics,
+    iiifOptions: IiifOptions
+  ) {
+    this.definitions = new Map(TOOL_DEFINITIONS.map(definition => [definition.name, definition]));
+    this.tileStitcher = new TileStitcher(imageOptions.maxBytes);
+    this.webImageFetcher = new WebImageFetcher(imageOptions.maxBytes);
+    this.paletteMatcher = new PaletteMatcher(apiClient);
+    this.subjectSearcher = new SubjectSearcher(apiClient, localIndex);
+    this.artworkComparer = new ArtworkComparer(apiClient);
+    this.manifestBuilder = new IiifManifestBuilder(apiClient, this.tileStitcher, iiifOptions);
+    this.collectionExporter = new CollectionExporter(apiClient);
+  }
 
   async handleToolRequest(request: CallToolRequest) {
+    const startedAt = Date.now();
     try {
-      switch (request.params.name) {
-        case "search_artwork":
-          return await this.handleSearchArtwork(request);
-        case "get_artwork_details":
-          return await this.handleGetArtworkDetails(request);
-        case "get_artwork_image":
-          return await this.handleGetArtworkImage(request);
-        case "get_user_sets":
-          return await this.handleGetUserSets(request);
-        case "get_user_set_details":
-          return await this.handleGetUserSetDetails(request);
-        case "open_image_in_browser":
-          return await this.handleOpenImageInBrowser(request);
-        case "get_artist_timeline":
-          return await this.handleGetArtistTimeline(request);
-        default:
-          throw new Error(`Unknown tool: ${request.params.name}`);
-      }
+      const result = await this.callTool(request);
+      this.recordToolCall(request.params.name, startedAt);
+      return result;
     } catch (error) {
+      this.recordToolCall(request.params.name, startedAt, error);
       ErrorHandler.handleError(error);
     }
   }
 
-  private async handleSearchArtwork(request: CallToolRequest) {
-    if (!isSearchArtworkArguments(request.params.arguments)) {
-      throw new Error("Invalid arguments for search_artwork");
+  private async callTool(request: CallToolRequest) {
+    const definition = this.definitions.get(request.params.name);
+    if (!definition) {
+      throw new Error(`Unknown tool: ${request.params.name}`);
+    }
+
+    // Validate against the same schema advertised in tools/list
+    const args = validateToolArguments(definition, request.params.arguments);
+
+    switch (request.params.name) {
+      case "search_artwork":
+        return await this.handleSearchArtwork(args as SearchArtworkToolArguments);
+      case "search_artwork_all":
+        return await this.handleSearchArtworkAll(args as SearchAllArtworksArguments);
+      case "get_search_facets":
+        return await this.handleGetSearchFacets(args as GetSearchFacetsArguments);
+      case "get_artwork_details":
+        return await this.handleGetArtworkDetails(args as GetArtworkDetailsArguments);
+      case "get_artwork_thumbnail":
+        return await this.handleGetArtworkThumbnail(args as GetArtworkThumbnailArguments);
+      case "get_artwork_image":
+        return await this.handleGetArtworkImage(args as GetArtworkArguments);
+      case "get_artwork_region":
+        return await this.handleGetArtworkRegion(args as GetArtworkRegionArguments);
+      case "get_iiif_manifest":
+        return await this.handleGetIiifManifest(args as GetIiifManifestArguments);
+      case "export_collection":
+        return await this.handleExportCollection(args as ExportCollectionArguments);
+      case "cite_artwork":
+        return await this.handleCiteArtwork(args as CiteArtworkArguments);
+      case "compare_artworks":
+        return await this.handleCompareArtworks(args as CompareArtworksArguments);
+      case "get_user_sets":
+        return await this.handleGetUserSets(args as GetUserSetsArguments);
+      case "get_user_set_details":
+        return await this.handleGetUserSetDetails(args as GetUserSetDetailsArguments);
+      case "create_collection":
+        return this.handleCreateCollection(args as CreateCollectionArguments);
+      case "add_to_collection":
+        return await this.handleAddToCollection(args as AddToCollectionArguments);
+      case "remove_from_collection":
+        return this.handleRemoveFromCollection(args as RemoveFromCollectionArguments);
+      case "list_collections":
+        return this.handleListCollections();
+      case "get_collection":
+        return this.handleGetCollection(args as GetCollectionArguments);
+      case "open_image_in_browser":
+        return await this.handleOpenImageInBrowser(args as OpenImageArguments);
+      case "resolve_artist":
+        return await this.handleResolveArtist(args as ResolveArtistArguments);
+      case "get_artist_timeline":
+        return await this.handleGetArtistTimeline(args as GetArtistTimelineArguments);
+      case "find_by_palette":
+        return await this.handleFindByPalette(args as FindByPaletteArguments);
+      case "search_by_subject":
+        return await this.handleSearchBySubject(args as SearchBySubjectArguments);
+      case "search_local_collection":
+        return this.handleSearchLocalCollection(args as LocalSearchArguments);
+      case "cache_stats":
+        return this.handleCacheStats();
+      case "clear_cache":
+        return this.handleClearCache(args as { endpoint?: CacheEndpoint });
+      case "server_stats":
+        return this.handleServerStats();
+      default:
+        throw new Error(`Unknown tool: ${request.params.name}`);
+    }
+  }
+
+  private recordToolCall(tool: string, startedAt: number, error?: unknown): void {
+    const durationMs = Date.now() - startedAt;
+    // Only advertised tools get an entry, so unknown names cannot grow the stats without bound
+    if (this.definitions.has(tool)) {
+      this.metrics.recordToolCall(tool, durationMs, error !== undefined);
+    }
+    if (error === undefined) {
+      logger.debug("Tool call", { tool, durationMs });
+      return;
+    }
+
+    const errorClass = ErrorHandler.classify(error);
+    this.metrics.recordError(errorClass);
+    logger.warn("Tool call failed", { tool, durationMs, errorClass, error });
+  }
+
+  private async handleSearchArtwork(args: SearchArtworkToolArguments) {
+    const { p = 0, ps = 10, culture, minHeightCm, maxHeightCm, minWidthCm, maxWidthCm, yearFrom, yearTo, date, dateMatch = 'overlap', ...params } = args;
+    const filter: PostFilter = {};
+
+    const size = { minHeightCm, maxHeightCm, minWidthCm, maxWidthCm };
+    if (hasSizeFilter(size)) {
+      filter.size = size;
+    }
+    if (date !== undefined && (yearFrom !== undefined || yearTo !== undefined)) {
+      throw new Error('Use either date or yearFrom/yearTo, not both');
+    }
+    if (date !== undefined || yearFrom !== undefined || yearTo !== undefined) {
+      filter.dates = { ...(date !== undefined ? parseDateExpression(date) : yearRange(yearFrom, yearTo)), match: dateMatch };
+    }
+
+    if (filter.size || filter.dates) {
+      if (culture === 'both') {
+        throw new Error("Size and date filters cannot be combined with culture 'both'");
+      }
+      const { count, artObjects, resolvedMaker, filters, scan } = await this.apiClient.searchArtworksPostFiltered({ ...params, p, ps, culture }, filter);
+      return {
+        content: [{
+          type: "text",
+          text: JSON.stringify({
+            count,
+            page: p,
+            pageSize: ps,
+            returned: artObjects.length,
+            resolvedMaker,
+            filters,
+            scan,
+            artworks: artObjects
+          }, null, 2)
+        }]
+      };
     }
 
-    const artworks = await this.apiClient.searchArtworks(request.params.arguments);
+    const result = culture === 'both'
+      ? await this.apiClient.searchArtworksBilingual({ ...params, p, ps })
+      : await this.apiClient.searchArtworks({ ...params, p, ps, culture });
+
+    return {
+      content: [{
+        type: "text",
+        text: JSON.stringify({
+          count: result.count,
+          page: p,
+          pageSize: ps,
+          returned: result.artObjects.length,
+          resolvedMaker: result.resolvedMaker,
+          artworks: result.artObjects
+        }, null, 2)
+      }]
+    };
+  }
+
+  private async handleGetSearchFacets(args: GetSearchFacetsArguments) {
+    const { facets: requestedFacets, maxBuckets = 10, ...searchParams } = args;
+    const { count, facets, resolvedMaker } = await this.apiClient.getSearchFacets(searchParams);
+
+    // Trim each facet to its largest buckets and report how many were left out
+    const breakdown: Record<string, { buckets: Array<{ key: string; count: number }>; otherBuckets: number }> = {};
+    for (const [name, buckets] of Object.entries(facets)) {
+      if (requestedFacets && !requestedFacets.includes(name)) continue;
+      breakdown[name] = {
+        buckets: buckets.slice(0, maxBuckets),
+        otherBuckets: Math.max(0, buckets.length - maxBuckets)
+      };
+    }
 
     return {
       content: [{
         type: "text",
         text: JSON.stringify({
-          count: artworks.length,
-          artworks: artworks
+          count,
+          resolvedMaker,
+          facets: breakdown
         }, null, 2)
       }]
     };
   }
 
-  private async handleGetArtworkDetails(request: CallToolRequest) {
-    const { objectNumber, culture = 'en' } = request.params.arguments as { objectNumber: string; culture?: 'nl' | 'en' };
-    ErrorHandler.validateRequiredParam(objectNumber, 'objectNumber');
+  private async handleSearchArtworkAll(args: SearchAllArtworksArguments) {
+    const result = await this.apiClient.searchAllArtworks(args);
 
-    const details = await this.apiClient.getArtworkDetails(objectNumber, culture);
     return {
       content: [{
         type: "text",
-        text: JSON.stringify(details, null, 2)
+        text: JSON.stringify(result, null, 2)
       }]
     };
   }
 
-  private async handleGetArtworkImage(request: CallToolRequest) {
-    const { objectNumber, culture = 'en' } = request.params.arguments as { objectNumber: string; culture?: 'nl' | 'en' };
-    ErrorHandler.validateRequiredParam(objectNumber, 'objectNumber');
+  private async handleGetArtworkDetails(args: GetArtworkDetailsArguments) {
+    const { objectNumber, culture = 'en', includeImage = false, maxSize = this.imageOptions.defaultMaxSize } = args;
+
+    let details: ArtworkDetails | BilingualArtworkDetails;
+    let imageUrl: string | undefined;
+    if (culture === 'both') {
+      details = await this.apiClient.getArtworkDetailsBilingual(objectNumber);
+      // webImage is language-neutral, so it stays a plain value in the merged record
+      imageUrl = (details.artObject.webImage as { url?: string } | null | undefined)?.url;
+    } else {
+      details = await this.apiClient.getArtworkDetails(objectNumber, culture);
+      imageUrl = details.artObject.webImage?.url;
+    }
+
+    const content: Array<Record<string, string>> = [{
+      type: "text",
+      text: JSON.stringify(details, null, 2)
+    }];
+
+    if (includeImage && imageUrl) {
+      const image = await this.webImageFetcher.fetch(imageUrl, maxSize);
+      content.push({
+        type: "image",
+        data: image.data.toString('base64'),
+        mimeType: image.mimeType
+      });
+    }
+
+    return { content };
+  }
+
+  private async handleGetArtworkThumbnail(args: GetArtworkThumbnailArguments) {
+    const { objectNumber, culture = 'en', maxSize = this.imageOptions.defaultMaxSize } = args;
+
+    const { artObject } = await this.apiClient.getArtworkDetails(objectNumber, culture);
+    if (!artObject.webImage?.url) {
+      throw new Error(`Artwork ${objectNumber} has no image available`);
+    }
+
+    const image = await this.webImageFetcher.fetch(artObject.webImage.url, maxSize);
+    const summary = {
+      objectNumber,
+      title: artObject.title,
+      maker: artObject.principalMaker,
+      originalSize: `${artObject.webImage.width}x${artObject.webImage.height}`,
+      outputSize: `${image.width}x${image.height}`,
+      bytes: image.data.length
+    };
+
+    return {
+      content: [
+        {
+          type: "image",
+          data: image.data.toString('base64'),
+          mimeType: image.mimeType
+        },
+        {
+          type: "text",
+          text: JSON.stringify(summary, null, 2)
+        }
+      ]
+    };
+  }
+
+  private async handleGetArtworkImage(args: GetArtworkArguments) {
+    const { objectNumber, culture = 'en' } = args;
 
     const imageData = await this.apiClient.getArtworkImageTiles(objectNumber, culture);
 
@@ -89,8 +356,111 @@ export class ToolHandler {
     };
   }
 
-  private async handleGetUserSets(request: CallToolRequest) {
-    const { page = 0, pageSize = 10, culture = 'en' } = request.params.arguments as GetUserSetsArguments;
+  private async handleGetArtworkRegion(args: GetArtworkRegionArguments) {
+    const { objectNumber, culture = 'en', level, region, maxSize = this.imageOptions.defaultMaxSize } = args;
+
+    const imageTiles = await this.apiClient.getArtworkImageTiles(objectNumber, culture);
+    if (imageTiles.levels.length === 0) {
+      throw new Error(`No image tiles available for artwork ${objectNumber}`);
+    }
+
+    const image = await this.tileStitcher.stitch(imageTiles, { level, region, maxSize });
+
+    const summary = {
+      objectNumber,
+      level: image.level,
+      levelResolution: `${image.levelSize.width}x${image.levelSize.height}`,
+      sourceRegion: image.sourceRegion,
+      outputSize: `${image.width}x${image.height}`,
+      tilesFetched: image.tilesFetched
+    };
+
+    return {
+      content: [
+        {
+          type: "image",
+          data: image.data.toString('base64'),
+          mimeType: image.mimeType
+        },
+        {
+          type: "text",
+          text: JSON.stringify(summary, null, 2)
+        }
+      ]
+    };
+  }
+
+  private async handleGetIiifManifest(args: GetIiifManifestArguments) {
+    const { objectNumber, setId, ...options } = args;
+    const manifest = objectNumber
+      ? await this.manifestBuilder.forArtwork(objectNumber, options)
+      : await this.manifestBuilder.forUserSet(setId!, options);
+
+    return {
+      content: [{
+        type: "text",
+        text: JSON.stringify(manifest, null, 2)
+      }]
+    };
+  }
+
+  private async handleExportCollection(args: ExportCollectionArguments) {
+    const { document, ...summary } = await this.collectionExporter.export(args);
+    return {
+      content: [{
+        type: "text",
+        text: JSON.stringify(summary, null, 2)
+      }, {
+        type: "text",
+        text: document
+      }]
+    };
+  }
+
+  private async handleCiteArtwork(args: CiteArtworkArguments) {
+    const { objectNumber, setId, format, culture = 'en', limit = 50 } = args;
+    const objectNumbers = objectNumber
+      ? [objectNumber]
+      : (await this.apiClient.getUserSetObjectNumbers(setId!, { culture, limit })).objectNumbers;
+
+    // In a batch, one missing record should not block the other citations
+    const failed: string[] = [];
+    const details = await mapWithConcurrency(objectNumbers, 4, async number => {
+      try {
+        return (await this.apiClient.getArtworkDetails(number, culture)).artObject;
+      } catch (error) {
+        if (objectNumber) throw error;
+        failed.push(number);
+        return null;
+      }
+    });
+    const artObjects = details.filter((artObject): artObject is NonNullable<typeof artObject> => artObject !== null);
+    if (artObjects.length === 0) {
+      throw new Error(`User set ${setId} has no artworks that could be cited`);
+    }
+
+    const content = [{
+      type: "text",
+      text: formatCitations(artObjects, format, { culture, accessed: new Date() })
+    }];
+    if (failed.length > 0) {
+      content.push({ type: "text", text: `Could not cite ${failed.length} artwork(s): ${failed.join(', ')}` });
+    }
+    return { content };
+  }
+
+  private async handleCompareArtworks(args: CompareArtworksArguments) {
+    const comparison = await this.artworkComparer.compare(args);
+    return {
+      content: [{
+        type: "text",
+        text: JSON.stringify(comparison, null, 2)
+      }]
+    };
+  }
+
+  private async handleGetUserSets(args: GetUserSetsArguments) {
+    const { page = 0, pageSize = 10, culture = 'en' } = args;
     const userSetsResponse = await this.apiClient.getUserSets({ page, pageSize, culture });
 
     // Format the response to be more readable
@@ -120,13 +490,8 @@ export class ToolHandler {
     };
   }
 
-  private async handleGetUserSetDetails(request: CallToolRequest) {
-    if (!isGetUserSetDetailsArguments(request.params.arguments)) {
-      throw new Error("Invalid arguments for get_user_set_details");
-    }
-
-    const { setId, culture = 'en', page = 0, pageSize = 25 } = request.params.arguments;
-    ErrorHandler.validateRequiredParam(setId, 'setId');
+  private async handleGetUserSetDetails(args: GetUserSetDetailsArguments) {
+    const { setId, culture = 'en', page = 0, pageSize = 25 } = args;
 
     const setDetails = await this.apiClient.getUserSetDetails({ setId, culture, page, pageSize });
 
@@ -166,17 +531,86 @@ export class ToolHandler {
     };
   }
 
-  private async handleOpenImageInBrowser(request: CallToolRequest) {
-    if (!isOpenImageArguments(request.params.arguments)) {
-      throw new Error("Invalid arguments for open_image_in_browser");
-    }
+  private handleCreateCollection(args: CreateCollectionArguments) {
+    const { setItems, ...collection } = this.collections.create(args.name, args.description);
+    return {
+      content: [{
+        type: "text",
+        text: JSON.stringify(collection, null, 2)
+      }]
+    };
+  }
+
+  private async handleAddToCollection(args: AddToCollectionArguments) {
+    const { collection, objectNumbers, notes, tags, culture = 'en' } = args;
+    // Fail before looking anything up if the collection does not exist
+    this.collections.get(collection);
+
+    const failed: Array<{ objectNumber: string; error: string }> = [];
+    const details = await mapWithConcurrency([...new Set(objectNumbers)], 4, async objectNumber => {
+      try {
+        return (await this.apiClient.getArtworkDetails(objectNumber, culture)).artObject;
+      } catch (error) {
+        failed.push({ objectNumber, error: error instanceof Error ? error.message : String(error) });
+        return null;
+      }
+    });
+    const artObjects = details.filter((artObject): artObject is NonNullable<typeof artObject> => artObject !== null);
+    const { added, updated } = this.collections.addItems(collection, artObjects, culture, { notes, tags });
+
+    const { slug, count, updatedOn } = this.collections.get(collection);
+    return {
+      content: [{
+        type: "text",
+        text: JSON.stringify({ collection: slug, count, updatedOn, added, updated, failed }, null, 2)
+      }]
+    };
+  }
+
+  private handleRemoveFromCollection(args: RemoveFromCollectionArguments) {
+    const { removed, notFound } = this.collections.removeItems(args.collection, args.objectNumbers);
+    const { slug, count, updatedOn } = this.collections.get(args.collection);
+    return {
+      content: [{
+        type: "text",
+        text: JSON.stringify({ collection: slug, count, updatedOn, removed, notFound }, null, 2)
+      }]
+    };
+  }
+
+  private handleListCollections() {
+    const userSets = this.collections.list();
+    return {
+      content: [{
+        type: "text",
+        text: JSON.stringify({
+          count: userSets.length,
+          persistedTo: this.collections.persistedTo,
+          userSets
+        }, null, 2)
+      }]
+    };
+  }
+
+  private handleGetCollection(args: GetCollectionArguments) {
+    const userSet = this.collections.get(args.collection);
+    const tag = args.tag?.trim().toLowerCase();
+    const setItems = tag ? userSet.setItems.filter(item => item.tags.includes(tag)) : userSet.setItems;
+    return {
+      content: [{
+        type: "text",
+        text: JSON.stringify({ userSet: { ...userSet, setItems } }, null, 2)
+      }]
+    };
+  }
 
+  private async handleOpenImageInBrowser(args: OpenImageArguments) {
     try {
-      await SystemIntegration.openInBrowser(request.params.arguments.imageUrl);
+      await SystemIntegration.openInBrowser(args.imageUrl);
       return {
         content: [{
           type: "text",
-          text: `Successfully opened image in browser: ${request.params.arguments.imageUrl}`
+          text: `Successfully opened image in browser: ${args.imageUrl}`
         }]
       };
     } catch (error) {
@@ -190,17 +624,95 @@ export class ToolHandler {
     }
   }
 
-  private async handleGetArtistTimeline(request: CallToolRequest) {
-    const { artist, maxWorks = 10 } = request.params.arguments as { artist: string; maxWorks?: number };
-    ErrorHandler.validateRequiredParam(artist, 'artist');
+  private async handleResolveArtist(args: ResolveArtistArguments) {
+    const { name, limit = 5, culture = 'en' } = args;
+
+    const resolution = await this.apiClient.resolveArtist(name, { limit, culture });
+    return {
+      content: [{
+        type: "text",
+        text: JSON.stringify(resolution, null, 2)
+      }]
+    };
+  }
+
+  private async handleGetArtistTimeline(args: GetArtistTimelineArguments) {
+    const { artist, maxWorks = 10, page = 0, culture = 'en', imagesOnly = true, resolveArtist = false } = args;
+
+    const timeline = await this.apiClient.getArtistTimeline(artist, {
+      page,
+      pageSize: maxWorks,
+      culture,
+      imagesOnly,
+      resolve: resolveArtist
+    });
+    return {
+      content: [{
+        type: "text",
+        text: JSON.stringify(timeline, null, 2)
+      }]
+    };
+  }
+
+  private async handleFindByPalette(args: FindByPaletteArguments) {
+    const result = await this.paletteMatcher.findSimilar(args);
+    return {
+      content: [{
+        type: "text",
+        text: JSON.stringify(result, null, 2)
+      }]
+    };
+  }
+
+  private async handleSearchBySubject(args: SearchBySubjectArguments) {
+    const result = await this.subjectSearcher.search(args);
+    return {
+      content: [{
+        type: "text",
+        text: JSON.stringify(result, null, 2)
+      }]
+    };
+  }
+
+  private handleSearchLocalCollection(args: LocalSearchArguments) {
+    const result = this.localIndex.search(args);
+    return {
+      content: [{
+        type: "text",
+        text: JSON.stringify(result, null, 2)
+      }]
+    };
+  }
+
+  private handleCacheStats() {
+    const stats = this.apiClient.getCacheStats();
+    return {
+      content: [{
+        type: "text",
+        text: JSON.stringify(stats ?? { enabled: false }, null, 2)
+      }]
+    };
+  }
+
+  private handleServerStats() {
+    const stats = this.metrics.getStats(this.apiClient.getCacheStats());
+    return {
+      content: [{
+        type: "text",
+        text: JSON.stringify(stats, null, 2)
+      }]
+    };
+  }
 
-    const timelineArtworks = await this.apiClient.getArtistTimeline(artist, maxWorks);
+  private handleClearCache(args: { endpoint?: CacheEndpoint }) {
+    const { endpoint } = args;
+    const removed = this.apiClient.clearCache(endpoint);
     return {
       content: [{
         type: "text",
         text: JSON.stringify({
-          artist,
-          works: timelineArtworks
+          cleared: endpoint ?? "all",
+          removedEntries: removed
         }, null, 2)
       }]
     };
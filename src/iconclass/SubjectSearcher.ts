@@ -0,0 +1,81 @@
+import { RijksmuseumApiClient } from '../api/RijksmuseumApiClient.js';
+import { LocalCollectionIndex } from '../localIndex/LocalCollectionIndex.js';
+import { SearchBySubjectArguments, SubjectMatch, SubjectSearchResult } from '../types.js';
+import { mapWithConcurrency } from '../utils/mapWithConcurrency.js';
+import { describeIconclass, findSubjects, isWithin } from './iconclass.js';
+
+const DETAILS_CONCURRENCY = 4;
+const LOCAL_HITS_PER_SUBJECT = 50;
+
+/**
+ * Finds artworks by Iconclass subject. The API cannot filter on Iconclass, so
+ * candidates come from collection searches on the subject text and the matched
+ * labels, plus the local index when it is enabled. Each candidate's details
+ * are then checked for a code at or below one of the matched subjects.
+ */
+export class SubjectSearcher {
+  constructor(
+    private readonly apiClient: RijksmuseumApiClient,
+    private readonly localIndex: LocalCollectionIndex
+  ) {}
+
+  async search(args: SearchBySubjectArguments): Promise<SubjectSearchResult> {
+    const { subject, limit = 10, candidatesPerQuery = 20, culture = 'en' } = args;
+
+    const subjects = findSubjects(subject);
+    if (subjects.length === 0) {
+      throw new Error(`No Iconclass subject matches "${subject}". Try a broader term or an Iconclass code such as 73A5.`);
+    }
+
+    // A notation means nothing to the search API, so only its label is searched on
+    const isNotation = subjects.length === 1 && subjects[0].code.toLowerCase() === subject.trim().toLowerCase();
+    const labels = subjects.map(match => match.label).filter((label): label is string => label !== null);
+    const searchedQueries = [...new Set([...(isNotation ? [] : [subject.trim()]), ...labels])];
+    const candidates = new Set<string>();
+    for (const q of searchedQueries) {
+      const { artObjects } = await this.apiClient.searchArtworks({ q, ps: candidatesPerQuery, culture });
+      artObjects.forEach(artwork => candidates.add(artwork.objectNumber));
+    }
+    if (this.localIndex.enabled) {
+      for (const { code } of subjects) {
+        // Prefix queries cannot carry brackets, so a named subject is looked up by its base code
+        const prefix = code.split('(')[0].toLowerCase();
+        const { results } = this.localIndex.search({ query: `iconclass:${prefix}*`, culture, limit: LOCAL_HITS_PER_SUBJECT });
+        results.forEach(hit => candidates.add(hit.objectNumber));
+      }
+    }
+
+    let failed = 0;
+    const checked = await mapWithConcurrency([...candidates], DETAILS_CONCURRENCY, async (objectNumber): Promise<SubjectMatch | null> => {
+      try {
+        const { artObject } = await this.apiClient.getArtworkDetails(objectNumber, culture);
+        const { iconClassIdentifier = [], iconClassDescription = [] } = artObject.classification ?? {};
+        const matched = describeIconclass(iconClassIdentifier, iconClassDescription)
+          .filter(described => subjects.some(match => isWithin(described.code, match.code)));
+        if (matched.length === 0) return null;
+
+        return {
+          objectNumber,
+          title: artObject.title,
+          principalOrFirstMaker: artObject.principalOrFirstMaker,
+          date: artObject.dating?.presentingDate ?? null,
+          matchedSubjects: matched,
+          webImage: artObject.webImage?.url ?? null
+        };
+      } catch {
+        // One missing record should not sink the search
+        failed++;
+        return null;
+      }
+    });
+
+    return {
+      subject,
+      subjects,
+      searchedQueries,
+      candidatesConsidered: candidates.size,
+      candidatesFailed: failed,
+      matches: checked.filter((match): match is SubjectMatch => match !== null).slice(0, limit)
+    };
+  }
+} 
\ No newline at end of file
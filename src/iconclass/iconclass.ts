@@ -0,0 +1,111 @@
+import { IconclassSubject } from '../types.js';
+import { ICONCLASS_LABELS } from './iconclassLabels.js';
+
+export type ScoredSubject = IconclassSubject & { score: number };
+
+// Notations look like 73A5, 25F23 or 61B2(Rembrandt); bracketed parts are names or keys
+const CODE_PATTERN = /^[0-9][0-9A-Za-z]*(\([^)]+\))*$/;
+
+// Subjects must cover at least this much of the query and of their own label
+const MIN_SUBJECT_SCORE = 0.5;
+
+const STOPWORDS = new Set(['a', 'an', 'the', 'of', 'with', 'and', 'or', 'in', 'on', 'at', 'to', 'from', 'for', 'by']);
+
+/**
+ * Iconclass is hierarchical by notation: every code's parent is the code with
+ * its last character removed, and a bracketed name or key belongs to the code
+ * before the bracket.
+ */
+export function parentCode(code: string): string | null {
+  const bracket = code.indexOf('(');
+  if (bracket > 0) return code.slice(0, bracket);
+  return code.length > 1 ? code.slice(0, -1) : null;
+}
+
+/** Ancestors of a code, broadest first. */
+export function ancestorsOf(code: string): string[] {
+  const ancestors: string[] = [];
+  for (let parent = parentCode(code); parent; parent = parentCode(parent)) {
+    ancestors.unshift(parent);
+  }
+  return ancestors;
+}
+
+export function isWithin(code: string, ancestor: string): boolean {
+  return code === ancestor || ancestorsOf(code).includes(ancestor);
+}
+
+/**
+ * Labels a record's Iconclass codes. The API's own descriptions, which are in
+ * the record's language, take precedence over the bundled English labels.
+ */
+export function describeIconclass(codes: string[], descriptions: string[] = []): IconclassSubject[] {
+  return codes.map((code, index) => ({
+    code,
+    label: descriptions[index] || labelOf(code),
+    hierarchy: ancestorsOf(code)
+      .filter(ancestor => ICONCLASS_LABELS[ancestor])
+      .map(ancestor => ({ code: ancestor, label: ICONCLASS_LABELS[ancestor] }))
+  }));
+}
+
+/**
+ * Maps free text to Iconclass subjects. A notation is taken as is; otherwise
+ * the bundled labels are ranked by how much of the query they match and how
+ * much of the label the query covers, so "still life with fish" prefers
+ * "fishes" over every label that mentions "life".
+ */
+export function findSubjects(text: string, limit = 5): ScoredSubject[] {
+  const trimmed = text.trim();
+  if (CODE_PATTERN.test(trimmed)) {
+    const code = normalizeCode(trimmed);
+    return [{ ...describeIconclass([code])[0], score: 1 }];
+  }
+
+  const queryTerms = termsOf(trimmed);
+  if (queryTerms.length === 0) return [];
+
+  return Object.entries(ICONCLASS_LABELS)
+    .map(([code, label]) => {
+      const labelTerms = termsOf(label);
+      const matchedQuery = queryTerms.filter(term => labelTerms.some(word => termsMatch(term, word))).length;
+      const coveredLabel = labelTerms.filter(word => queryTerms.some(term => termsMatch(term, word))).length;
+      const score = labelTerms.length === 0 ? 0 : (matchedQuery / queryTerms.length + coveredLabel / labelTerms.length) / 2;
+      return { code, score: Math.round(score * 100) / 100 };
+    })
+    .filter(({ score }) => score >= MIN_SUBJECT_SCORE)
+    // Broader codes first among equals, so descendants are found through them
+    .sort((a, b) => b.score - a.score || a.code.length - b.code.length)
+    .slice(0, limit)
+    .map(({ code, score }) => ({ ...describeIconclass([code])[0], score }));
+}
+
+function labelOf(code: string): string | null {
+  if (ICONCLASS_LABELS[code]) return ICONCLASS_LABELS[code];
+
+  const bracket = code.indexOf('(');
+  const base = bracket > 0 ? ICONCLASS_LABELS[code.slice(0, bracket)] : undefined;
+  return base ? `${base} ${code.slice(bracket)}` : null;
+}
+
+// Letters are upper case in notations, but names in brackets keep their case
+function normalizeCode(code: string): string {
+  const bracket = code.indexOf('(');
+  return bracket > 0 ? code.slice(0, bracket).toUpperCase() + code.slice(bracket) : code.toUpperCase();
+}
+
+function termsOf(text: string): string[] {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(term => term.length > 0 && !STOPWORDS.has(term));
+}
+
+// Prefix matching lets "fish" find "fishes" and "angel" find "angels"
+function termsMatch(term: string, word: string): boolean {
+  if (term === word) return true;
+  const [shorter, longer] = term.length <= word.length ? [term, word] : [word, term];
+  return shorter.length >= 4 && longer.startsWith(shorter);
+} 
\ No newline at end of file
@@ -0,0 +1,82 @@
+/**
+ * English labels for a subset of Iconclass (https://iconclass.org): the ten
+ * main divisions, their first subdivisions and the subjects that come up most
+ * often in the Rijksmuseum collection. Codes missing here are still placed
+ * under their labelled ancestors, and take their own label from the API's
+ * iconClassDescription when it has one.
+ */
+export const ICONCLASS_LABELS: Record<string, string> = {
+  '0': 'Abstract, Non-representational Art',
+
+  '1': 'Religion and Magic',
+  '11': 'Christian religion',
+  '11A': 'Deity, God (Christian religion)',
+  '11C': 'God the Father',
+  '11D': 'Christ',
+  '11E': 'the Holy Ghost',
+  '11F': 'the Virgin Mary',
+  '11G': 'angels',
+  '11H': 'saints',
+  '12': 'non-Christian religions',
+  '13': 'magic, supernaturalism, occultism',
+  '14': 'astrology',
+
+  '2': 'Nature',
+  '23': 'time',
+  '25': 'earth, world as celestial body',
+  '25F': 'animals',
+  '25F2': 'mammals',
+  '25F23': 'beasts of prey, predatory animals',
+  '25F3': 'birds',
+  '25F6': 'fishes',
+  '25G': 'plants; vegetation',
+  '25G3': 'trees',
+  '25G4': 'flowers',
+  '25H': 'landscapes',
+  '25I': 'city-view, and landscape with man-made constructions',
+  '26': 'meteorological phenomena',
+
+  '3': 'Human Being, Man in General',
+  '31': 'man in a general biological sense',
+  '31A': 'the (nude) human figure',
+  '31D14': 'adult man',
+  '31D15': 'adult woman',
+  '32': 'human types; peoples and nationalities',
+  '33': 'relations between individual persons',
+  '34': 'man and animal',
+
+  '4': 'Society, Civilization, Culture',
+  '41': 'material aspects of daily life',
+  '41A': 'housing',
+  '41C': 'nutrition, nourishment',
+  '41D': 'fashion, clothing',
+  '42': 'family, descendance',
+  '43': 'recreation, amusement',
+  '44': 'state; law; political life',
+  '45': 'warfare; military affairs',
+  '46': 'social and economic life, communication, transportation',
+  '47': 'crafts and industries',
+  '48': 'art',
+  '49': 'education, science and learning',
+
+  '5': 'Abstract Ideas and Concepts',
+
+  '6': 'History',
+  '61': 'historical events and situations; historical persons',
+  '61B': 'historical persons',
+  '61B2': 'historical person - portrait',
+
+  '7': 'Bible',
+  '71': 'Old Testament',
+  '73': 'New Testament',
+  '73A5': 'the Annunciation',
+  '73B': 'birth and youth of Christ',
+  '73B13': 'adoration of the shepherds',
+  '73B57': 'adoration of the kings',
+  '73C': 'public life of Christ',
+  '73D': 'passion of Christ',
+
+  '8': 'Literature',
+
+  '9': 'Classical Mythology and Ancient History'
+}; 
\ No newline at end of file
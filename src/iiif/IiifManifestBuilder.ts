@@ -0,0 +1,321 @@
+import { RijksmuseumApiClient } from '../api/RijksmuseumApiClient.js';
+import { TileStitcher } from '../images/TileStitcher.js';
+import { ArtworkDetails, ImageTiles } from '../types.js';
+import { MUSEUM_SITE, collectionPageUrl } from '../utils/collectionPageUrl.js';
+import { logger } from '../observability/Logger.js';
+
+type Culture = 'nl' | 'en';
+type ArtObject = ArtworkDetails['artObject'];
+type TileLevel = ImageTiles['levels'][number];
+
+export type LanguageMap = Record<string, string[]>;
+
+export interface IiifImageAnnotation {
+  id: string;
+  type: 'Annotation';
+  motivation: 'painting';
+  body: {
+    id: string;
+    type: 'Image';
+    format: string;
+    width: number;
+    height: number;
+  };
+  target: string;
+}
+
+export interface IiifCanvas {
+  id: string;
+  type: 'Canvas';
+  label: LanguageMap;
+  width: number;
+  height: number;
+  metadata?: Array<{ label: LanguageMap; value: LanguageMap }>;
+  thumbnail?: Array<{ id: string; type: 'Image'; format: string }>;
+  items: Array<{
+    id: string;
+    type: 'AnnotationPage';
+    items: IiifImageAnnotation[];
+  }>;
+}
+
+export interface IiifManifest {
+  '@context': string;
+  id: string;
+  type: 'Manifest';
+  label: LanguageMap;
+  summary?: LanguageMap;
+  metadata: Array<{ label: LanguageMap; value: LanguageMap }>;
+  rights?: string;
+  requiredStatement?: { label: LanguageMap; value: LanguageMap };
+  homepage?: Array<{ id: string; type: 'Text'; label: LanguageMap; format: 'text/html' }>;
+  provider: Array<{ id: string; type: 'Agent'; label: LanguageMap }>;
+  items: IiifCanvas[];
+}
+
+export type ImageSource = 'web' | 'tiles';
+
+export interface IiifOptions {
+  // Public HTTP(S) base, serving the manifests, that manifest, canvas and annotation ids are minted under
+  baseUrl?: string;
+}
+
+const PRESENTATION_CONTEXT = 'http://iiif.io/api/presentation/3/context.json';
+const PUBLIC_DOMAIN = 'http://creativecommons.org/publicdomain/zero/1.0/';
+const IN_COPYRIGHT = 'http://rightsstatements.org/vocab/InC/1.0/';
+
+// Painting every tile of a level is one annotation per tile, so keep the level small
+const MAX_PAINTED_TILES = 64;
+
+const LABELS: Record<string, Record<Culture, string>> = {
+  artist: { en: 'Artist', nl: 'Kunstenaar' },
+  date: { en: 'Date', nl: 'Datering' },
+  objectNumber: { en: 'Object number', nl: 'Objectnummer' },
+  objectType: { en: 'Object type', nl: 'Objecttype' },
+  material: { en: 'Material', nl: 'Materiaal' },
+  technique: { en: 'Technique', nl: 'Techniek' },
+  dimensions: { en: 'Dimensions', nl: 'Afmetingen' },
+  copyright: { en: 'Copyright', nl: 'Auteursrecht' },
+  attribution: { en: 'Attribution', nl: 'Vermelding' },
+  homepage: { en: 'Rijksmuseum collection page', nl: 'Rijksmuseum collectiepagina' },
+  curator: { en: 'Curated by', nl: 'Samengesteld door' }
+};
+
+/**
+ * Builds IIIF Presentation 3.0 manifests for artworks and user sets, so any
+ * IIIF viewer can open them. Canvas sizes come from the full-resolution (z0)
+ * tile level; canvases are painted with the web image or with the tiles of a
+ * zoom level, since the API offers no IIIF Image API service.
+ *
+ * The manifests themselves are read through the server's art:// resources, so
+ * ids are art:// URIs unless a public base URL serving the manifests over
+ * HTTP(S) is configured. Ids on the museum's own site would not resolve.
+ */
+export class IiifManifestBuilder {
+  constructor(
+    private readonly apiClient: RijksmuseumApiClient,
+    private readonly tileStitcher: TileStitcher,
+    private readonly options: IiifOptions = {}
+  ) {}
+
+  async forArtwork(objectNumber: string, options: { culture?: Culture; imageSource?: ImageSource } = {}): Promise<IiifManifest> {
+    const { culture = 'en', imageSource = 'web' } = options;
+    const id = this.manifestId(culture, `collection/${encodeURIComponent(objectNumber)}`, imageSource);
+
+    const { artObject } = await this.apiClient.getArtworkDetails(objectNumber, culture);
+    const canvas = await this.buildCanvas(id, 1, artObject, culture, { imageSource, withMetadata: false });
+    if (!canvas) {
+      throw new Error(`Artwork ${objectNumber} has no image to put in a IIIF manifest`);
+    }
+
+    return {
+      '@context': PRESENTATION_CONTEXT,
+      id,
+      type: 'Manifest',
+      label: this.text(culture, artObject.title),
+      ...(artObject.description ? { summary: this.text(culture, artObject.description) } : {}),
+      metadata: this.metadataFor(artObject, culture),
+      rights: artObject.copyrightHolder ? IN_COPYRIGHT : PUBLIC_DOMAIN,
+      ...this.requiredStatementFor(artObject, culture),
+      homepage: [{
+        id: collectionPageUrl(artObject.objectNumber, culture),
+        type: 'Text',
+        label: this.text(culture, LABELS.homepage[culture]),
+        format: 'text/html'
+      }],
+      provider: [this.provider(culture)],
+      items: [canvas]
+    };
+  }
+
+  /**
+   * One canvas per artwork in the set, in set order. Artworks without an image
+   * are left out, since a canvas cannot be painted without one, and so are
+   * artworks whose canvas cannot be built, such as withdrawn objects.
+   */
+  async forUserSet(setId: string, options: { culture?: Culture; imageSource?: ImageSource; limit?: number } = {}): Promise<IiifManifest> {
+    const { culture = 'en', imageSource = 'web', limit = 50 } = options;
+    const id = this.manifestId(culture, `usersets/${encodeURIComponent(setId)}`, imageSource);
+
+    const { userSet, objectNumbers } = await this.apiClient.getUserSetObjectNumbers(setId, { culture, limit });
+
+    // Built one at a time: each canvas may need a details, tiles and tile request
+    const canvases: IiifCanvas[] = [];
+    for (const objectNumber of objectNumbers) {
+      try {
+        const { artObject } = await this.apiClient.getArtworkDetails(objectNumber, culture);
+        // Each canvas carries its artwork's metadata, since the manifest describes the set
+        const canvas = await this.buildCanvas(id, canvases.length + 1, artObject, culture, { imageSource, withMetadata: true });
+        if (canvas) canvases.push(canvas);
+      } catch (error) {
+        logger.warn('Leaving artwork out of user set manifest', { setId, objectNumber, error });
+      }
+    }
+    if (canvases.length === 0) {
+      throw new Error(`User set ${setId} has no artworks with images to put in a IIIF manifest`);
+    }
+
+    return {
+      '@context': PRESENTATION_CONTEXT,
+      id,
+      type: 'Manifest',
+      label: this.text(culture, userSet.name),
+      ...(userSet.description ? { summary: this.text(culture, userSet.description) } : {}),
+      metadata: [{ label: this.text(culture, LABELS.curator[culture]), value: this.text(culture, userSet.user.name) }],
+      provider: [this.provider(culture)],
+      items: canvases
+    };
+  }
+
+  // Tile-painted manifests get their own id; a path segment, since canvas and annotation ids extend it
+  private manifestId(culture: Culture, path: string, imageSource: ImageSource): string {
+    const base = this.options.baseUrl?.replace(/\/+$/, '') ?? 'art://manifest';
+    return `${base}/${culture}/${path}/manifest${imageSource === 'tiles' ? '/tiles' : ''}`;
+  }
+
+  private async buildCanvas(
+    manifestId: string,
+    position: number,
+    artObject: ArtObject,
+    culture: Culture,
+    options: { imageSource: ImageSource; withMetadata: boolean }
+  ): Promise<IiifCanvas | null> {
+    if (!artObject.hasImage && !artObject.webImage) return null;
+
+    // Without tile data the canvas falls back to the web image's size
+    const tiles = await this.apiClient.getArtworkImageTiles(artObject.objectNumber, culture).catch(() => null);
+    const z0 = tiles?.levels.find(level => level.name === 'z0');
+    const width = z0?.width ?? artObject.webImage?.width;
+    const height = z0?.height ?? artObject.webImage?.height;
+    if (!width || !height) return null;
+
+    const canvasId = `${manifestId}/canvas/p${position}`;
+    const pageId = `${canvasId}/page`;
+    // Painting with tiles needs a tile fetched for its size; the web image still works when that fails
+    const annotations = options.imageSource === 'tiles' && tiles
+      ? await this.tileAnnotations(pageId, canvasId, tiles, width, height).catch(error => {
+        logger.warn('Painting canvas with the web image instead of tiles', { objectNumber: artObject.objectNumber, error });
+        return this.webImageAnnotations(pageId, canvasId, artObject);
+      })
+      : this.webImageAnnotations(pageId, canvasId, artObject);
+    if (annotations.length === 0) return null;
+
+    return {
+      id: canvasId,
+      type: 'Canvas',
+      label: this.text(culture, artObject.title),
+      width,
+      height,
+      ...(options.withMetadata ? { metadata: this.metadataFor(artObject, culture) } : {}),
+      ...(artObject.webImage ? { thumbnail: [{ id: artObject.webImage.url, type: 'Image' as const, format: this.formatOf(artObject.webImage.url) }] } : {}),
+      items: [{ id: pageId, type: 'AnnotationPage', items: annotations }]
+    };
+  }
+
+  private webImageAnnotations(pageId: string, canvasId: string, artObject: ArtObject): IiifImageAnnotation[] {
+    const image = artObject.webImage;
+    if (!image?.url) return [];
+
+    return [{
+      id: `${pageId}/image`,
+      type: 'Annotation',
+      motivation: 'painting',
+      body: { id: image.url, type: 'Image', format: this.formatOf(image.url), width: image.width, height: image.height },
+      target: canvasId
+    }];
+  }
+
+  /**
+   * Paints every tile of the most detailed level with at most MAX_PAINTED_TILES
+   * tiles onto its region of the canvas, scaled up to z0 coordinates.
+   */
+  private async tileAnnotations(
+    pageId: string,
+    canvasId: string,
+    tiles: ImageTiles,
+    canvasWidth: number,
+    canvasHeight: number
+  ): Promise<IiifImageAnnotation[]> {
+    const level = [...tiles.levels]
+      .filter(candidate => candidate.tiles.length > 0 && candidate.tiles.length <= MAX_PAINTED_TILES)
+      .sort((a, b) => b.width - a.width)[0];
+    if (!level) return [];
+
+    const tileSize = await this.tileStitcher.tileSize(level);
+    const scaleX = canvasWidth / level.width;
+    const scaleY = canvasHeight / level.height;
+
+    return level.tiles.map(tile => {
+      const { left, top, width, height } = this.tileBounds(level, tile, tileSize);
+      const x = Math.round(left * scaleX);
+      const y = Math.round(top * scaleY);
+      return {
+        id: `${pageId}/${level.name}-${tile.x}-${tile.y}`,
+        type: 'Annotation',
+        motivation: 'painting',
+        body: { id: tile.url, type: 'Image', format: this.formatOf(tile.url), width, height },
+        target: `${canvasId}#xywh=${x},${y},${Math.round((left + width) * scaleX) - x},${Math.round((top + height) * scaleY) - y}`
+      };
+    });
+  }
+
+  private tileBounds(level: TileLevel, tile: TileLevel['tiles'][number], tileSize: { width: number; height: number }) {
+    const left = tile.x * tileSize.width;
+    const top = tile.y * tileSize.height;
+    return {
+      left,
+      top,
+      width: Math.min(tileSize.width, level.width - left),
+      height: Math.min(tileSize.height, level.height - top)
+    };
+  }
+
+  private metadataFor(artObject: ArtObject, culture: Culture) {
+    const entries: Array<[string, string[]]> = [
+      ['artist', [artObject.principalOrFirstMaker]],
+      ['date', [artObject.dating?.presentingDate]],
+      ['objectNumber', [artObject.objectNumber]],
+      ['objectType', artObject.objectTypes ?? []],
+      ['material', artObject.materials ?? []],
+      ['technique', artObject.techniques ?? []],
+      ['dimensions', (artObject.dimensions ?? []).map(dimension =>
+        [dimension.part, dimension.type, dimension.value, dimension.unit].filter(Boolean).join(' ')
+      )],
+      ['copyright', [artObject.copyrightHolder ?? '']]
+    ];
+
+    return entries
+      .map(([key, values]) => [key, values.filter(Boolean)] as const)
+      .filter(([, values]) => values.length > 0)
+      .map(([key, values]) => ({
+        label: this.text(culture, LABELS[key][culture]),
+        value: { [culture]: values }
+      }));
+  }
+
+  private requiredStatementFor(artObject: ArtObject, culture: Culture) {
+    const creditLine = artObject.acquisition?.creditLine;
+    if (!creditLine) return {};
+    return {
+      requiredStatement: {
+        label: this.text(culture, LABELS.attribution[culture]),
+        value: this.text(culture, creditLine)
+      }
+    };
+  }
+
+  private provider(culture: Culture) {
+    return { id: MUSEUM_SITE, type: 'Agent' as const, label: this.text(culture, 'Rijksmuseum') };
+  }
+
+  private text(culture: Culture, value: string): LanguageMap {
+    return { [culture]: [value] };
+  }
+
+  private formatOf(url: string): string {
+    const extension = new URL(url).pathname.split('.').pop()?.toLowerCase();
+    if (extension === 'png') return 'image/png';
+    if (extension === 'webp') return 'image/webp';
+    return 'image/jpeg';
+  }
+} 
\ No newline at end of file
@@ -0,0 +1,172 @@
+import axios from 'axios';
+import sharp from 'sharp';
+import { ImageTiles, ImageRegion } from '../types.js';
+import { EncodedImage, encodeJpeg } from './encodeJpeg.js';
+import { mapWithConcurrency } from '../utils/mapWithConcurrency.js';
+
+export interface StitchOptions {
+  level?: string;
+  region?: ImageRegion;
+  maxSize: number;
+}
+
+export interface StitchedImage extends EncodedImage {
+  level: string;
+  levelSize: { width: number; height: number };
+  sourceRegion: { left: number; top: number; width: number; height: number };
+  tilesFetched: number;
+}
+
+type TileLevel = ImageTiles['levels'][number];
+
+const MAX_TILES = 64;
+const FETCH_CONCURRENCY = 6;
+
+/**
+ * Fetches the tiles covering a region of an artwork at one zoom level and
+ * composites them into a single JPEG no larger than `maxSize` on either side.
+ */
+export class TileStitcher {
+  private http = axios.create({ responseType: 'arraybuffer', timeout: 30000 });
+
+  constructor(private readonly maxBytes: number) {}
+
+  async stitch(imageTiles: ImageTiles, options: StitchOptions): Promise<StitchedImage> {
+    const fraction = this.toFraction(imageTiles, options.region);
+    const level = this.selectLevel(imageTiles, fraction, options);
+
+    const left = Math.floor(fraction.x * level.width);
+    const top = Math.floor(fraction.y * level.height);
+    const width = Math.max(1, Math.min(level.width - left, Math.round(fraction.width * level.width)));
+    const height = Math.max(1, Math.min(level.height - top, Math.round(fraction.height * level.height)));
+
+    const { tile: origin, buffer: originBuffer, width: tileWidth, height: tileHeight } = await this.fetchOriginTile(level);
+
+    const firstColumn = Math.floor(left / tileWidth);
+    const lastColumn = Math.floor((left + width - 1) / tileWidth);
+    const firstRow = Math.floor(top / tileHeight);
+    const lastRow = Math.floor((top + height - 1) / tileHeight);
+
+    const needed = level.tiles.filter(tile =>
+      tile.x >= firstColumn && tile.x <= lastColumn && tile.y >= firstRow && tile.y <= lastRow
+    );
+    if (needed.length > MAX_TILES) {
+      throw new Error(`Region needs ${needed.length} tiles at level ${level.name} (limit ${MAX_TILES}). Choose a smaller region or a lower-resolution level.`);
+    }
+
+    const buffers = await mapWithConcurrency(needed, FETCH_CONCURRENCY, tile =>
+      tile === origin ? Promise.resolve(originBuffer) : this.fetchTile(tile.url)
+    );
+
+    // Composite the covering tiles first, then cut the exact region out of the mosaic
+    const mosaicLeft = firstColumn * tileWidth;
+    const mosaicTop = firstRow * tileHeight;
+    const mosaicWidth = Math.min(level.width, (lastColumn + 1) * tileWidth) - mosaicLeft;
+    const mosaicHeight = Math.min(level.height, (lastRow + 1) * tileHeight) - mosaicTop;
+
+    const overlays = await Promise.all(needed.map(async (tile, index) => {
+      const tileLeft = tile.x * tileWidth - mosaicLeft;
+      const tileTop = tile.y * tileHeight - mosaicTop;
+      // Trim tiles that overhang the level edge so sharp accepts the overlay
+      const input = await sharp(buffers[index])
+        .extract({
+          left: 0,
+          top: 0,
+          width: Math.min(tileWidth, mosaicWidth - tileLeft),
+          height: Math.min(tileHeight, mosaicHeight - tileTop)
+        })
+        .toBuffer();
+      return { input, left: tileLeft, top: tileTop };
+    }));
+
+    const mosaic = await sharp({
+      create: { width: mosaicWidth, height: mosaicHeight, channels: 3, background: { r: 0, g: 0, b: 0 } }
+    }).composite(overlays).png().toBuffer();
+
+    const cropped = await sharp(mosaic)
+      .extract({ left: left - mosaicLeft, top: top - mosaicTop, width, height })
+      .png()
+      .toBuffer();
+
+    return {
+      ...await encodeJpeg(cropped, options.maxSize, this.maxBytes),
+      level: level.name,
+      levelSize: { width: level.width, height: level.height },
+      sourceRegion: { left, top, width, height },
+      tilesFetched: needed.length
+    };
+  }
+
+  /**
+   * Measures the tile grid of a zoom level. Edge tiles may be smaller, so
+   * this is the spacing between tile origins rather than every tile's size.
+   */
+  async tileSize(level: TileLevel): Promise<{ width: number; height: number }> {
+    const { width, height } = await this.fetchOriginTile(level);
+    return { width, height };
+  }
+
+  /**
+   * Converts the requested region into fractions of the image. Pixel regions are
+   * measured against the highest-resolution level (z0).
+   */
+  private toFraction(imageTiles: ImageTiles, region?: ImageRegion) {
+    if (!region) {
+      return { x: 0, y: 0, width: 1, height: 1 };
+    }
+
+    const full = this.largestLevel(imageTiles);
+    const [scaleX, scaleY] = region.unit === 'percent' ? [100, 100] : [full.width, full.height];
+
+    const x = Math.min(1, Math.max(0, region.x / scaleX));
+    const y = Math.min(1, Math.max(0, region.y / scaleY));
+    const width = Math.min(1 - x, region.width / scaleX);
+    const height = Math.min(1 - y, region.height / scaleY);
+
+    if (width <= 0 || height <= 0) {
+      throw new Error('Region lies outside the image');
+    }
+    return { x, y, width, height };
+  }
+
+  /**
+   * Uses the requested level, or else the smallest level at which the region
+   * still fills `maxSize`, so we never fetch more pixels than we return.
+   */
+  private selectLevel(imageTiles: ImageTiles, fraction: { width: number; height: number }, options: StitchOptions): TileLevel {
+    if (options.level) {
+      const level = imageTiles.levels.find(candidate => candidate.name === options.level);
+      if (!level) {
+        const available = imageTiles.levels.map(candidate => candidate.name).join(', ');
+        throw new Error(`Zoom level ${options.level} is not available for this artwork (available: ${available})`);
+      }
+      return level;
+    }
+
+    const bySize = [...imageTiles.levels].sort((a, b) => a.width - b.width);
+    const sufficient = bySize.find(level =>
+      Math.max(level.width * fraction.width, level.height * fraction.height) >= options.maxSize
+    );
+    return sufficient ?? bySize[bySize.length - 1];
+  }
+
+  private largestLevel(imageTiles: ImageTiles): TileLevel {
+    return imageTiles.levels.reduce((largest, level) => level.width > largest.width ? level : largest);
+  }
+
+  private async fetchOriginTile(level: TileLevel) {
+    // Tile (0,0) is always full size, so it tells us the grid spacing
+    const tile = level.tiles.find(candidate => candidate.x === 0 && candidate.y === 0);
+    if (!tile) {
+      throw new Error(`Zoom level ${level.name} has no tile at position 0,0`);
+    }
+    const buffer = await this.fetchTile(tile.url);
+    const metadata = await sharp(buffer).metadata();
+    return { tile, buffer, width: metadata.width ?? 512, height: metadata.height ?? 512 };
+  }
+
+  private async fetchTile(url: string): Promise<Buffer> {
+    const response = await this.http.get(url);
+    return Buffer.from(response.data);
+  }
+} 
\ No newline at end of file
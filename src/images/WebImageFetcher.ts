@@ -0,0 +1,23 @@
+import axios from 'axios';
+import { EncodedImage, encodeJpeg } from './encodeJpeg.js';
+
+const MAX_DOWNLOAD_BYTES = 50 * 1024 * 1024;
+
+/**
+ * Downloads an artwork's web image and re-encodes it at a bounded size, so it
+ * can be returned inline as MCP image content.
+ */
+export class WebImageFetcher {
+  private http = axios.create({
+    responseType: 'arraybuffer',
+    timeout: 30000,
+    maxContentLength: MAX_DOWNLOAD_BYTES
+  });
+
+  constructor(private readonly maxBytes: number) {}
+
+  async fetch(url: string, maxSize: number): Promise<EncodedImage> {
+    const response = await this.http.get(url);
+    return encodeJpeg(Buffer.from(response.data), maxSize, this.maxBytes);
+  }
+} 
\ No newline at end of file
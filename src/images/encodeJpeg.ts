@@ -0,0 +1,38 @@
+import sharp from 'sharp';
+
+export interface ImageOptions {
+  defaultMaxSize: number;
+  maxBytes: number;
+}
+
+export interface EncodedImage {
+  data: Buffer;
+  mimeType: string;
+  width: number;
+  height: number;
+}
+
+const QUALITY_STEPS = [85, 70, 55];
+const MIN_SIZE = 64;
+
+/**
+ * Scales an image to fit within `maxSize` on either side and encodes it as JPEG,
+ * lowering the quality and then the size until the result fits in `maxBytes`.
+ */
+export async function encodeJpeg(input: Buffer, maxSize: number, maxBytes: number): Promise<EncodedImage> {
+  for (let size = maxSize; size >= MIN_SIZE; size = Math.floor(size * 0.75)) {
+    for (const quality of QUALITY_STEPS) {
+      const { data, info } = await sharp(input)
+        .flatten({ background: { r: 255, g: 255, b: 255 } })
+        .resize({ width: size, height: size, fit: 'inside', withoutEnlargement: true })
+        .jpeg({ quality })
+        .toBuffer({ resolveWithObject: true });
+
+      if (data.length <= maxBytes) {
+        return { data, mimeType: 'image/jpeg', width: info.width, height: info.height };
+      }
+    }
+  }
+
+  throw new Error(`Image cannot be encoded within the ${maxBytes} byte limit`);
+} 
\ No newline at end of file
@@ -0,0 +1,372 @@
+import fs from 'fs';
+import path from 'path';
+import { ArtworkDetails, LocalSearchArguments, LocalSearchHit, LocalSearchResult } from '../types.js';
+import { logger } from '../observability/Logger.js';
+
+type ArtObject = ArtworkDetails['artObject'];
+type Culture = 'nl' | 'en';
+
+export interface LocalIndexOptions {
+  enabled: boolean;
+  filePath?: string;
+}
+
+export interface LocalIndexStats {
+  enabled: boolean;
+  artworks: number;
+  byCulture: Record<string, number>;
+  terms: number;
+  persistedTo: string | null;
+}
+
+interface StoredArtwork {
+  culture: Culture;
+  indexedAt: string;
+  artObject: ArtObject;
+}
+
+interface IndexedDocument extends StoredArtwork {
+  fields: Map<string, { text: string; terms: Map<string, number> }>;
+}
+
+interface QueryClause {
+  field: string | null;     // null searches every field
+  value: string;
+  phrase: boolean;
+  prefix: boolean;
+  negated: boolean;
+}
+
+interface PreparedClause extends QueryClause {
+  terms: string[];          // Index terms a word clause matches, after prefix expansion
+  keys: Set<string>;        // Documents that may match
+  idf: number;
+}
+
+// Searchable fields, how to read them from an artObject, and how much a hit in them counts
+const FIELDS: Record<string, { boost: number; extract: (artObject: ArtObject) => Array<string | null | undefined> }> = {
+  title: { boost: 3, extract: a => [a.title, a.longTitle, ...(a.titles ?? [])] },
+  maker: { boost: 2, extract: a => [a.principalOrFirstMaker, ...(a.principalMakers ?? []).map(maker => maker.name), ...(a.makers ?? []).map(maker => maker?.name)] },
+  description: { boost: 1, extract: a => [a.description, a.labelText, a.plaqueDescriptionEnglish, a.plaqueDescriptionDutch, a.label?.description] },
+  inscriptions: { boost: 1, extract: a => a.inscriptions ?? [] },
+  documentation: { boost: 1, extract: a => a.documentation ?? [] },
+  historicalPersons: { boost: 1.5, extract: a => a.historicalPersons ?? [] },
+  type: { boost: 1.5, extract: a => a.objectTypes ?? [] },
+  material: { boost: 1, extract: a => [...(a.materials ?? []), a.physicalMedium] },
+  technique: { boost: 1, extract: a => a.techniques ?? [] },
+  place: { boost: 1, extract: a => a.productionPlaces ?? [] },
+  associations: { boost: 1, extract: a => a.associations ?? [] },
+  iconclass: { boost: 1, extract: a => [...(a.classification?.iconClassIdentifier ?? []), ...(a.classification?.subjects ?? []).flatMap(subject => [subject.label, ...subject.hierarchy.map(ancestor => ancestor.label)])] },
+  acquisition: { boost: 0.5, extract: a => [a.acquisition?.method, a.acquisition?.creditLine] }
+};
+
+export const LOCAL_INDEX_FIELDS = Object.keys(FIELDS);
+
+// Fields worth quoting in a result snippet, in order of preference
+const SNIPPET_FIELDS = ['description', 'inscriptions', 'documentation', 'historicalPersons', 'title'];
+const SNIPPET_RADIUS = 80;
+
+/**
+ * In-memory full-text index over artwork details, optionally persisted to a
+ * JSON file. Holds one record per object number and culture; adding a record
+ * again replaces the old one.
+ */
+export class LocalCollectionIndex {
+  private documents = new Map<string, IndexedDocument>();
+  private postings = new Map<string, Set<string>>();
+  private persistTimer: NodeJS.Timeout | null = null;
+
+  constructor(private readonly options: LocalIndexOptions) {
+    if (this.options.enabled && this.options.filePath) {
+      this.load();
+    }
+  }
+
+  get enabled(): boolean {
+    return this.options.enabled;
+  }
+
+  get size(): number {
+    return this.documents.size;
+  }
+
+  add(culture: Culture, artObject: ArtObject): void {
+    if (!this.options.enabled || !artObject?.objectNumber) return;
+
+    // Cache hits hand back the very object we indexed last time
+    if (this.documents.get(`${culture}:${artObject.objectNumber}`)?.artObject === artObject) return;
+
+    this.insert({ culture, indexedAt: new Date().toISOString(), artObject });
+    this.schedulePersist();
+  }
+
+  search(args: LocalSearchArguments): LocalSearchResult {
+    if (!this.options.enabled) {
+      throw new Error('The local collection index is disabled. Set RIJKSMUSEUM_INDEX_ENABLED=true or RIJKSMUSEUM_INDEX_FILE to enable it.');
+    }
+
+    const { query = '', culture, yearFrom, yearTo, hasImage, limit = 10, offset = 0 } = args;
+    const clauses = LocalCollectionIndex.parseQuery(query).map(clause => this.prepare(clause));
+    const positive = clauses.filter(clause => !clause.negated);
+
+    const hits: LocalSearchHit[] = [];
+    for (const key of this.candidates(positive)) {
+      const document = this.documents.get(key)!;
+      const { artObject } = document;
+
+      if (culture && document.culture !== culture) continue;
+      if (hasImage !== undefined && Boolean(artObject.webImage?.url) !== hasImage) continue;
+      const year = artObject.dating?.sortingDate;
+      if (yearFrom !== undefined && !(year >= yearFrom)) continue;
+      if (yearTo !== undefined && !(year <= yearTo)) continue;
+
+      const scored = this.score(document, clauses);
+      if (!scored) continue;
+
+      hits.push({
+        objectNumber: artObject.objectNumber,
+        culture: document.culture,
+        title: artObject.title,
+        maker: artObject.principalOrFirstMaker,
+        date: artObject.dating?.presentingDate ?? null,
+        score: Number(scored.score.toFixed(3)),
+        matchedFields: scored.matchedFields,
+        snippet: this.snippet(document, positive, scored.matchedFields),
+        webImage: artObject.webImage?.url ?? null
+      });
+    }
+
+    hits.sort((a, b) => b.score - a.score || a.objectNumber.localeCompare(b.objectNumber));
+    return {
+      query,
+      totalMatches: hits.length,
+      indexedArtworks: this.documents.size,
+      offset,
+      results: hits.slice(offset, offset + limit)
+    };
+  }
+
+  getStats(): LocalIndexStats {
+    const byCulture: Record<string, number> = {};
+    for (const document of this.documents.values()) {
+      byCulture[document.culture] = (byCulture[document.culture] ?? 0) + 1;
+    }
+    return {
+      enabled: this.options.enabled,
+      artworks: this.documents.size,
+      byCulture,
+      terms: this.postings.size,
+      persistedTo: this.options.enabled ? this.options.filePath ?? null : null
+    };
+  }
+
+  flush(): void {
+    if (this.persistTimer) {
+      clearTimeout(this.persistTimer);
+      this.persistTimer = null;
+    }
+    this.persist();
+  }
+
+  /**
+   * Parses queries such as `storm "stormy sea" inscriptions:signed -print maker:rembr*`.
+   * Bare terms search every field, `field:` restricts a term or phrase to one
+   * field, a leading `-` excludes matches and a trailing `*` matches prefixes.
+   */
+  static parseQuery(query: string): QueryClause[] {
+    const clauses: QueryClause[] = [];
+    const pattern = /(-)?(?:([A-Za-z]+):)?(?:"([^"]*)"|(\S+))/g;
+
+    for (const match of query.matchAll(pattern)) {
+      const [, negation, fieldName, phrase, word] = match;
+      const field = fieldName && LOCAL_INDEX_FIELDS.find(name => name.toLowerCase() === fieldName.toLowerCase());
+      if (fieldName && !field) {
+        throw new Error(`Unknown field "${fieldName}". Searchable fields: ${LOCAL_INDEX_FIELDS.join(', ')}`);
+      }
+
+      const raw = phrase ?? word;
+      const prefix = phrase === undefined && raw.endsWith('*');
+      const value = LocalCollectionIndex.normalize(prefix ? raw.slice(0, -1) : raw);
+      if (!value) continue;
+
+      // Unquoted words that tokenize into several terms (e.g. "van-gogh") behave like phrases
+      const isPhrase = phrase !== undefined || LocalCollectionIndex.tokenize(value).length > 1;
+      clauses.push({ field: field || null, value, phrase: isPhrase, prefix, negated: Boolean(negation) });
+    }
+    return clauses;
+  }
+
+  private static normalize(text: string): string {
+    return text
+      .normalize('NFD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .toLowerCase()
+      .replace(/[^\p{L}\p{N}]+/gu, ' ')
+      .trim();
+  }
+
+  private static tokenize(normalized: string): string[] {
+    return normalized.split(' ').filter(Boolean);
+  }
+
+  private insert(stored: StoredArtwork): void {
+    const key = `${stored.culture}:${stored.artObject.objectNumber}`;
+    this.remove(key);
+
+    const fields: IndexedDocument['fields'] = new Map();
+    for (const [name, { extract }] of Object.entries(FIELDS)) {
+      const values = extract(stored.artObject).filter((value): value is string => typeof value === 'string' && value.length > 0);
+      if (values.length === 0) continue;
+
+      const text = values.join(' \n ');
+      const terms = new Map<string, number>();
+      for (const term of LocalCollectionIndex.tokenize(LocalCollectionIndex.normalize(text))) {
+        terms.set(term, (terms.get(term) ?? 0) + 1);
+      }
+      fields.set(name, { text, terms });
+
+      for (const term of terms.keys()) {
+        let keys = this.postings.get(term);
+        if (!keys) {
+          keys = new Set();
+          this.postings.set(term, keys);
+        }
+        keys.add(key);
+      }
+    }
+
+    this.documents.set(key, { ...stored, fields });
+  }
+
+  private remove(key: string): void {
+    const existing = this.documents.get(key);
+    if (!existing) return;
+
+    for (const { terms } of existing.fields.values()) {
+      for (const term of terms.keys()) {
+        const keys = this.postings.get(term);
+        keys?.delete(key);
+        if (keys?.size === 0) this.postings.delete(term);
+      }
+    }
+    this.documents.delete(key);
+  }
+
+  private prepare(clause: QueryClause): PreparedClause {
+    const words = LocalCollectionIndex.tokenize(clause.value);
+    const terms = clause.phrase
+      ? words
+      : clause.prefix
+        ? [...this.postings.keys()].filter(term => term.startsWith(clause.value))
+        : [clause.value];
+
+    // Any document containing a phrase contains its first word
+    const keys = new Set<string>();
+    for (const term of clause.phrase ? words.slice(0, 1) : terms) {
+      for (const key of this.postings.get(term) ?? []) keys.add(key);
+    }
+
+    const idf = Math.log(1 + this.documents.size / Math.max(1, keys.size));
+    return { ...clause, terms, keys, idf };
+  }
+
+  /**
+   * Every positive clause must match, so the clause with the fewest candidate
+   * documents bounds the set worth scoring.
+   */
+  private candidates(positive: PreparedClause[]): Iterable<string> {
+    let smallest: Set<string> | null = null;
+    for (const clause of positive) {
+      if (!smallest || clause.keys.size < smallest.size) smallest = clause.keys;
+    }
+    return smallest ?? this.documents.keys();
+  }
+
+  private score(document: IndexedDocument, clauses: PreparedClause[]): { score: number; matchedFields: string[] } | null {
+    let score = 0;
+    const matchedFields = new Set<string>();
+
+    for (const clause of clauses) {
+      let clauseScore = 0;
+      for (const name of clause.field ? [clause.field] : LOCAL_INDEX_FIELDS) {
+        const field = document.fields.get(name);
+        if (!field) continue;
+
+        let frequency = 0;
+        if (clause.phrase) {
+          const haystack = ` ${LocalCollectionIndex.normalize(field.text)} `;
+          frequency = haystack.split(` ${clause.value} `).length - 1;
+        } else {
+          for (const term of clause.terms) {
+            frequency += field.terms.get(term) ?? 0;
+          }
+        }
+        if (frequency === 0) continue;
+        if (clause.negated) return null;
+
+        clauseScore += FIELDS[name].boost * (1 + Math.log(frequency)) * clause.idf;
+        matchedFields.add(name);
+      }
+
+      if (!clause.negated && clauseScore === 0) return null;
+      score += clauseScore;
+    }
+
+    return { score, matchedFields: [...matchedFields] };
+  }
+
+  private snippet(document: IndexedDocument, positive: PreparedClause[], matchedFields: string[]): string | null {
+    const name = SNIPPET_FIELDS.find(field => matchedFields.includes(field));
+    const field = name ? document.fields.get(name) : undefined;
+    if (!field) return null;
+
+    // Find the first query term in the original text, ignoring case and accents
+    const folded = field.text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+    const positions = positive
+      .flatMap(clause => clause.phrase ? [clause.value.split(' ')[0]] : [clause.value])
+      .map(term => folded.indexOf(term))
+      .filter(position => position >= 0);
+    const at = positions.length > 0 ? Math.min(...positions) : 0;
+
+    const start = Math.max(0, at - SNIPPET_RADIUS);
+    const end = Math.min(field.text.length, at + SNIPPET_RADIUS);
+    const text = field.text.slice(start, end).replace(/\s+/g, ' ').trim();
+    return `${start > 0 ? '…' : ''}${text}${end < field.text.length ? '…' : ''}`;
+  }
+
+  private schedulePersist(): void {
+    if (!this.options.filePath || this.persistTimer) return;
+
+    this.persistTimer = setTimeout(() => {
+      this.persistTimer = null;
+      this.persist();
+    }, 1000);
+    this.persistTimer.unref();
+  }
+
+  private persist(): void {
+    if (!this.options.enabled || !this.options.filePath) return;
+
+    try {
+      const stored: StoredArtwork[] = [...this.documents.values()].map(({ culture, indexedAt, artObject }) => ({ culture, indexedAt, artObject }));
+      fs.mkdirSync(path.dirname(this.options.filePath), { recursive: true });
+      fs.writeFileSync(this.options.filePath, JSON.stringify(stored));
+    } catch (error) {
+      logger.error('Failed to persist local collection index', { filePath: this.options.filePath, error });
+    }
+  }
+
+  private load(): void {
+    const filePath = this.options.filePath!;
+    if (!fs.existsSync(filePath)) return;
+
+    try {
+      const stored = JSON.parse(fs.readFileSync(filePath, 'utf8')) as StoredArtwork[];
+      for (const record of stored) {
+        this.insert(record);
+      }
+    } catch (error) {
+      logger.warn('Ignoring unreadable local collection index', { filePath, error });
+    }
+  }
+} 
\ No newline at end of file
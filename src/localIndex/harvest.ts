@@ -0,0 +1,72 @@
+#!/usr/bin/env node
+import { Config } from '../config/Config.js';
+import { RijksmuseumApiClient } from '../api/RijksmuseumApiClient.js';
+import { LocalCollectionIndex } from './LocalCollectionIndex.js';
+
+/**
+ * Bulk-loads the local collection index: runs a collection search and fetches
+ * the details of every result, which the API client adds to the index.
+ *
+ *   npm run harvest -- --maker "Rembrandt van Rijn" --limit 500 --culture en
+ */
+const readArg = (name: string): string | undefined => {
+  const index = process.argv.indexOf(name);
+  return index !== -1 ? process.argv[index + 1] : undefined;
+};
+
+async function harvest(): Promise<void> {
+  const config = Config.getInstance();
+  const filePath = readArg('--file') ?? config.getIndexOptions().filePath;
+  if (!filePath) {
+    throw new Error('Set RIJKSMUSEUM_INDEX_FILE or pass --file so the harvested index can be saved');
+  }
+
+  const culture = readArg('--culture') ?? 'en';
+  if (culture !== 'en' && culture !== 'nl') {
+    throw new Error(`Unsupported culture "${culture}", expected "en" or "nl"`);
+  }
+  const limit = Number(readArg('--limit') ?? 100);
+  if (!Number.isInteger(limit) || limit < 1) {
+    throw new Error('--limit must be a positive integer');
+  }
+
+  const index = new LocalCollectionIndex({ enabled: true, filePath });
+  const apiClient = new RijksmuseumApiClient(config.getApiKey(), {
+    baseUrl: config.getBaseUrl(),
+    retry: config.getRetryOptions(),
+    rateLimit: config.getRateLimitOptions(),
+    index
+  });
+
+  const search = await apiClient.searchAllArtworks({
+    q: readArg('--q'),
+    involvedMaker: readArg('--maker'),
+    type: readArg('--type'),
+    toppieces: process.argv.includes('--toppieces') ? true : undefined,
+    imgonly: process.argv.includes('--imgonly') ? true : undefined,
+    culture,
+    limit
+  });
+  console.error(`Found ${search.totalCount} matching artworks, harvesting ${search.fetched}`);
+
+  let failed = 0;
+  for (const [position, artwork] of search.artworks.entries()) {
+    try {
+      await apiClient.getArtworkDetails(artwork.objectNumber, culture);
+    } catch (error) {
+      failed++;
+      console.error(`Skipping ${artwork.objectNumber}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    if ((position + 1) % 25 === 0) {
+      console.error(`${position + 1}/${search.fetched} artworks processed`);
+    }
+  }
+
+  index.flush();
+  console.error(`Done: ${search.fetched - failed} artworks indexed (${failed} failed). ${index.size} artworks in ${filePath}`);
+}
+
+harvest().catch(error => {
+  console.error('Harvest failed:', error instanceof Error ? error.message : error);
+  process.exit(1);
+}); 
\ No newline at end of file
@@ -0,0 +1,547 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { ARTWORKS, USER_SETS, Culture, Localized, MockArtwork, MockUserSet } from './fixtures.js';
+import { encodePng, hexToRgb } from './png.js';
+
+const TILE_SIZE = 512;
+const TILE_LEVELS = 4;
+const MAX_PAGE_WINDOW = 10000;
+
+/**
+ * Stand-in for the Rijksmuseum collection API, serving fixture data on the same
+ * routes. Point RIJKSMUSEUM_API_BASE_URL at `http://localhost:<port>/api` to run
+ * the MCP server without an API key or network access.
+ */
+export class MockRijksmuseumServer {
+  private server: http.Server;
+  private images = new Map<string, Buffer>();
+  // Copied so tests can change sets without touching the shared fixtures
+  private userSets: MockUserSet[] = USER_SETS.map(set => ({ ...set, objectNumbers: [...set.objectNumbers] }));
+
+  constructor() {
+    this.server = http.createServer((req, res) => {
+      try {
+        this.route(req, res);
+      } catch (error) {
+        this.sendJson(res, 500, { message: error instanceof Error ? error.message : String(error) });
+      }
+    });
+  }
+
+  async start(port: number = 0, host: string = '127.0.0.1'): Promise<string> {
+    await new Promise<void>((resolve, reject) => {
+      this.server.once('error', reject);
+      this.server.listen(port, host, () => resolve());
+    });
+    const address = this.server.address() as AddressInfo;
+    return `http://${host}:${address.port}/api`;
+  }
+
+  async stop(): Promise<void> {
+    await new Promise<void>((resolve, reject) => {
+      this.server.close(error => error ? reject(error) : resolve());
+    });
+  }
+
+  /**
+   * Replaces the items of a user set and bumps its updatedOn, to simulate a
+   * curator editing the set while the MCP server is running.
+   */
+  updateUserSet(setId: string, objectNumbers: string[]): void {
+    const set = this.userSets.find(candidate => candidate.id === setId);
+    if (!set) {
+      throw new Error(`No user set with id ${setId}`);
+    }
+    set.objectNumbers = [...objectNumbers];
+    set.updatedOn = new Date().toISOString();
+  }
+
+  private route(req: http.IncomingMessage, res: http.ServerResponse): void {
+    const url = new URL(req.url ?? '/', `http://${req.headers.host ?? 'localhost'}`);
+    const origin = `http://${req.headers.host ?? 'localhost'}`;
+    const segments = url.pathname.split('/').filter(Boolean).map(decodeURIComponent);
+
+    if (req.method !== 'GET') {
+      return this.sendJson(res, 405, { message: 'Only GET is supported' });
+    }
+
+    if (segments[0] === 'images') {
+      return this.serveImage(segments.slice(1), res);
+    }
+
+    if (segments[0] !== 'api') {
+      return this.sendJson(res, 404, { message: `Unknown route: ${url.pathname}` });
+    }
+
+    // The culture prefix is optional, as on the real API
+    let rest = segments.slice(1);
+    let culture: Culture = 'en';
+    if (rest[0] === 'en' || rest[0] === 'nl') {
+      culture = rest[0];
+      rest = rest.slice(1);
+    }
+
+    if (rest[0] === 'collection' && rest.length === 1) {
+      return this.sendJson(res, 200, this.search(url.searchParams, culture, origin));
+    }
+
+    if (rest[0] === 'collection' && rest.length === 2) {
+      const artwork = this.findArtwork(rest[1]);
+      if (!artwork) return this.sendJson(res, 404, { message: `No artwork with object number ${rest[1]}` });
+      return this.sendJson(res, 200, { elapsedMilliseconds: 0, artObject: this.toDetails(artwork, culture, origin), artObjectPage: null });
+    }
+
+    if (rest[0] === 'collection' && rest.length === 3 && rest[2] === 'tiles') {
+      const artwork = this.findArtwork(rest[1]);
+      if (!artwork) return this.sendJson(res, 404, { message: `No artwork with object number ${rest[1]}` });
+      return this.sendJson(res, 200, this.toTiles(artwork, origin));
+    }
+
+    if (rest[0] === 'usersets' && rest.length === 1) {
+      const { page, pageSize } = this.readPaging(url.searchParams, 'page', 'pageSize', 10);
+      const start = page * pageSize;
+      return this.sendJson(res, 200, {
+        count: this.userSets.length,
+        elapsedMilliseconds: 0,
+        userSets: this.userSets.slice(start, start + pageSize).map(set => this.toUserSet(set, culture, origin))
+      });
+    }
+
+    if (rest[0] === 'usersets' && rest.length === 2) {
+      const set = this.userSets.find(candidate => candidate.id === rest[1]);
+      if (!set) return this.sendJson(res, 404, { message: `No user set with id ${rest[1]}` });
+      const { page, pageSize } = this.readPaging(url.searchParams, 'page', 'pageSize', 25);
+      return this.sendJson(res, 200, { elapsedMilliseconds: 0, userSet: this.toUserSetDetails(set, culture, origin, page, pageSize) });
+    }
+
+    return this.sendJson(res, 404, { message: `Unknown route: ${url.pathname}` });
+  }
+
+  private search(params: URLSearchParams, culture: Culture, origin: string) {
+    const matches = ARTWORKS.filter(artwork => this.matchesSearch(artwork, params, culture));
+    const sorted = this.sort(matches, params.get('s') ?? 'relevance', culture);
+
+    const { page, pageSize } = this.readPaging(params, 'p', 'ps', 10);
+    if (page * pageSize > MAX_PAGE_WINDOW) {
+      throw new Error('Result window is too large, p * ps must be at most 10000');
+    }
+
+    // p=0 and p=1 both return the first page, like the real API
+    const start = Math.max(0, page - 1) * pageSize;
+
+    return {
+      elapsedMilliseconds: 0,
+      count: matches.length,
+      countFacets: { hasimage: matches.length, ondisplay: matches.filter(artwork => artwork.location).length },
+      artObjects: sorted.slice(start, start + pageSize).map(artwork => this.toSearchResult(artwork, culture, origin)),
+      facets: this.buildFacets(matches, culture)
+    };
+  }
+
+  private matchesSearch(artwork: MockArtwork, params: URLSearchParams, culture: Culture): boolean {
+    const q = params.get('q');
+    if (q) {
+      const haystack = [
+        artwork.title[culture],
+        artwork.maker.name,
+        artwork.description[culture],
+        artwork.physicalMedium[culture],
+        ...artwork.objectTypes.map(type => type[culture])
+      ].join(' ').toLowerCase();
+      if (!q.toLowerCase().split(/\s+/).every(term => haystack.includes(term))) return false;
+    }
+
+    const maker = this.readFilter(params, 'involvedMaker');
+    if (maker && artwork.maker.name !== maker) return false;
+
+    const type = this.readFilter(params, 'type');
+    if (type && !artwork.objectTypes.some(value => value[culture] === type)) return false;
+
+    const material = this.readFilter(params, 'material');
+    if (material && !artwork.materials.some(value => value[culture] === material)) return false;
+
+    const technique = this.readFilter(params, 'technique');
+    if (technique && !artwork.techniques.some(value => value[culture] === technique)) return false;
+
+    const period = params.get('f.dating.period');
+    if (period && artwork.period !== Number(period)) return false;
+
+    const color = params.get('f.normalized32Colors.hex');
+    if (color) {
+      const hex = `#${color.replace('#', '').trim().toUpperCase()}`;
+      if (!artwork.normalized32Colors.some(entry => entry.hex.toUpperCase() === hex)) return false;
+    }
+
+    if (params.get('toppieces') === 'true' && !artwork.toppiece) return false;
+
+    return true;
+  }
+
+  private readFilter(params: URLSearchParams, name: string): string | null {
+    const raw = params.get(name);
+    if (!raw) return null;
+
+    // The API client percent-encodes some filters before axios encodes them again
+    let value = raw;
+    try {
+      value = decodeURIComponent(raw);
+    } catch {
+      // Leave malformed sequences as they are
+    }
+    return value.replace(/\+/g, ' ');
+  }
+
+  private readPaging(params: URLSearchParams, pageName: string, sizeName: string, defaultSize: number) {
+    const page = Math.max(0, Number(params.get(pageName) ?? 0) || 0);
+    const pageSize = Math.min(100, Math.max(1, Number(params.get(sizeName) ?? defaultSize) || defaultSize));
+    return { page, pageSize };
+  }
+
+  private sort(artworks: MockArtwork[], sortBy: string, culture: Culture): MockArtwork[] {
+    const sorted = [...artworks];
+    switch (sortBy) {
+      case 'chronologic':
+        return sorted.sort((a, b) => a.sortingDate - b.sortingDate);
+      case 'achronologic':
+        return sorted.sort((a, b) => b.sortingDate - a.sortingDate);
+      case 'artist':
+        return sorted.sort((a, b) => a.maker.name.localeCompare(b.maker.name));
+      case 'artistdesc':
+        return sorted.sort((a, b) => b.maker.name.localeCompare(a.maker.name));
+      case 'objecttype':
+        return sorted.sort((a, b) => a.objectTypes[0][culture].localeCompare(b.objectTypes[0][culture]));
+      default:
+        return sorted;
+    }
+  }
+
+  private buildFacets(artworks: MockArtwork[], culture: Culture) {
+    const facet = (name: string, valuesOf: (artwork: MockArtwork) => string[]) => {
+      const counts = new Map<string, number>();
+      for (const artwork of artworks) {
+        for (const value of new Set(valuesOf(artwork))) {
+          counts.set(value, (counts.get(value) ?? 0) + 1);
+        }
+      }
+      return {
+        facets: [...counts].sort((a, b) => b[1] - a[1]).map(([key, value]) => ({ key, value })),
+        name,
+        otherTerms: 0,
+        prettyName: 0
+      };
+    };
+
+    const localized = (values: Localized[]) => values.map(value => value[culture]);
+    return [
+      facet('principalMaker', artwork => [artwork.maker.name]),
+      facet('type', artwork => localized(artwork.objectTypes)),
+      facet('material', artwork => localized(artwork.materials)),
+      facet('technique', artwork => localized(artwork.techniques)),
+      facet('dating.period', artwork => [String(artwork.period)]),
+      facet('place', artwork => artwork.productionPlaces),
+      facet('normalized32Colors', artwork => artwork.normalized32Colors.map(color => color.hex))
+    ];
+  }
+
+  private findArtwork(objectNumber: string): MockArtwork | undefined {
+    return ARTWORKS.find(artwork => artwork.objectNumber === objectNumber);
+  }
+
+  private webImage(artwork: MockArtwork, origin: string) {
+    return {
+      guid: `${artwork.priref}-web`,
+      offsetPercentageX: 0,
+      offsetPercentageY: 0,
+      width: artwork.image.width,
+      height: artwork.image.height,
+      url: `${origin}/images/web/${encodeURIComponent(artwork.objectNumber)}.png`
+    };
+  }
+
+  private longTitle(artwork: MockArtwork, culture: Culture): string {
+    return `${artwork.title[culture]}, ${artwork.maker.name}, ${artwork.presentingDate[culture]}`;
+  }
+
+  private toSearchResult(artwork: MockArtwork, culture: Culture, origin: string) {
+    return {
+      links: {
+        self: `${origin}/api/${culture}/collection/${artwork.objectNumber}`,
+        web: `${origin}/${culture}/collection/${artwork.objectNumber}`
+      },
+      id: `${culture}-${artwork.objectNumber}`,
+      objectNumber: artwork.objectNumber,
+      title: artwork.title[culture],
+      hasImage: true,
+      principalOrFirstMaker: artwork.maker.name,
+      longTitle: this.longTitle(artwork, culture),
+      subTitle: artwork.dimensions
+        .filter(dimension => !dimension.part && dimension.unit !== 'kg')
+        .map(dimension => `${dimension.type[culture][0]} ${dimension.value}${dimension.unit}`)
+        .join(' × '),
+      scLabelLine: `${artwork.maker.name} (${artwork.presentingDate[culture]}), ${artwork.physicalMedium[culture]}`,
+      location: artwork.location,
+      showImage: true,
+      permitDownload: true,
+      webImage: this.webImage(artwork, origin),
+      headerImage: this.webImage(artwork, origin),
+      productionPlaces: artwork.productionPlaces
+    };
+  }
+
+  private toDetails(artwork: MockArtwork, culture: Culture, origin: string) {
+    const localized = (values: Localized[]) => values.map(value => value[culture]);
+    const maker = artwork.maker;
+    return {
+      links: { search: `${origin}/api/${culture}/collection` },
+      id: `${culture}-${artwork.objectNumber}`,
+      priref: artwork.priref,
+      objectNumber: artwork.objectNumber,
+      language: culture,
+      title: artwork.title[culture],
+      copyrightHolder: null,
+      webImage: this.webImage(artwork, origin),
+      colors: artwork.colors,
+      colorsWithNormalization: artwork.colors.map((color, index) => ({
+        originalHex: color.hex,
+        normalizedHex: artwork.normalized32Colors[Math.min(index, artwork.normalized32Colors.length - 1)].hex
+      })),
+      normalizedColors: artwork.normalized32Colors,
+      normalized32Colors: artwork.normalized32Colors,
+      materialsThesaurus: [],
+      techniquesThesaurus: [],
+      productionPlacesThesaurus: [],
+      titles: [artwork.title[culture]],
+      description: artwork.description[culture],
+      labelText: artwork.labelText?.[culture] || null,
+      objectTypes: localized(artwork.objectTypes),
+      objectCollection: localized(artwork.objectTypes).map(type => `${type}s`),
+      makers: [],
+      principalMakers: [{
+        name: maker.name,
+        unFixedName: maker.unFixedName,
+        placeOfBirth: maker.placeOfBirth,
+        dateOfBirth: maker.dateOfBirth,
+        dateOfBirthPrecision: null,
+        dateOfDeath: maker.dateOfDeath,
+        dateOfDeathPrecision: null,
+        placeOfDeath: maker.placeOfDeath,
+        occupation: maker.occupation,
+        roles: [maker.occupation.includes('painter') ? 'painter' : maker.occupation[0]],
+        nationality: maker.nationality,
+        biography: null,
+        productionPlaces: artwork.productionPlaces,
+        qualification: null,
+        labelDesc: `${maker.name} (${maker.placeOfBirth} ${maker.dateOfBirth.slice(0, 4)} - ${maker.dateOfDeath.slice(0, 4)} ${maker.placeOfDeath})`
+      }],
+      plaqueDescriptionDutch: artwork.plaqueDescriptionDutch,
+      plaqueDescriptionEnglish: artwork.plaqueDescriptionEnglish,
+      principalMaker: maker.name,
+      artistRole: null,
+      associations: [],
+      acquisition: {
+        method: artwork.acquisition.method[culture],
+        date: artwork.acquisition.date,
+        creditLine: artwork.acquisition.creditLine[culture]
+      },
+      exhibitions: [],
+      materials: localized(artwork.materials),
+      techniques: localized(artwork.techniques),
+      productionPlaces: artwork.productionPlaces,
+      dating: {
+        presentingDate: artwork.presentingDate[culture],
+        sortingDate: artwork.sortingDate,
+        period: artwork.period,
+        yearEarly: artwork.yearEarly,
+        yearLate: artwork.yearLate
+      },
+      classification: {
+        iconClassIdentifier: artwork.iconClassIdentifier,
+        iconClassDescription: [],
+        motifs: [],
+        events: [],
+        periods: [],
+        places: artwork.productionPlaces,
+        people: artwork.historicalPersons,
+        objectNumbers: [artwork.objectNumber]
+      },
+      hasImage: true,
+      historicalPersons: artwork.historicalPersons,
+      inscriptions: artwork.inscriptions,
+      documentation: artwork.documentation,
+      catRefRPK: [],
+      principalOrFirstMaker: maker.name,
+      dimensions: artwork.dimensions.map(dimension => ({
+        unit: dimension.unit,
+        type: dimension.type[culture],
+        precision: null,
+        part: dimension.part ? dimension.part[culture] : null,
+        value: dimension.value
+      })),
+      physicalProperties: [],
+      physicalMedium: artwork.physicalMedium[culture],
+      longTitle: this.longTitle(artwork, culture),
+      subTitle: this.toSearchResult(artwork, culture, origin).subTitle,
+      scLabelLine: `${maker.name} (${artwork.presentingDate[culture]}), ${artwork.physicalMedium[culture]}`,
+      label: {
+        title: artwork.title[culture],
+        makerLine: `${maker.name} (${artwork.presentingDate[culture]})`,
+        description: artwork.description[culture],
+        notes: null,
+        date: artwork.presentingDate[culture]
+      },
+      showImage: true,
+      location: artwork.location
+    };
+  }
+
+  private toTiles(artwork: MockArtwork, origin: string) {
+    const levels = [];
+    for (let level = 0; level < TILE_LEVELS; level++) {
+      const width = Math.max(1, Math.round(artwork.image.width / 2 ** level));
+      const height = Math.max(1, Math.round(artwork.image.height / 2 ** level));
+      const tiles = [];
+      for (let x = 0; x < Math.ceil(width / TILE_SIZE); x++) {
+        for (let y = 0; y < Math.ceil(height / TILE_SIZE); y++) {
+          tiles.push({
+            x,
+            y,
+            url: `${origin}/images/tiles/${encodeURIComponent(artwork.objectNumber)}/z${level}/${x}_${y}.png`
+          });
+        }
+      }
+      levels.push({ name: `z${level}`, width, height, tiles });
+    }
+    return { levels };
+  }
+
+  private toUserSet(set: MockUserSet, culture: Culture, origin: string) {
+    return {
+      links: {
+        self: `${origin}/api/${culture}/usersets/${set.id}`,
+        web: `${origin}/${culture}/rijksstudio/${set.id}`
+      },
+      id: set.id,
+      count: set.objectNumbers.length,
+      type: 'userset',
+      name: set.name,
+      slug: set.id.split('-').slice(1).join('-'),
+      description: set.description,
+      user: {
+        id: set.userId,
+        name: set.userName,
+        lang: culture,
+        avatarUrl: null,
+        headerUrl: null,
+        initials: set.userName.slice(0, 2).toUpperCase()
+      },
+      createdOn: set.createdOn,
+      updatedOn: set.updatedOn
+    };
+  }
+
+  private toUserSetDetails(set: MockUserSet, culture: Culture, origin: string, page: number, pageSize: number) {
+    const { links, ...summary } = this.toUserSet(set, culture, origin);
+    const start = page * pageSize;
+    const items = set.objectNumbers.slice(start, start + pageSize)
+      .map(objectNumber => this.findArtwork(objectNumber))
+      .filter((artwork): artwork is MockArtwork => artwork !== undefined);
+
+    return {
+      links: { overview: links.self, web: links.web },
+      ...summary,
+      setItems: items.map(artwork => ({
+        links: {
+          artobject: `${origin}/api/${culture}/collection/${artwork.objectNumber}`,
+          web: `${origin}/${culture}/collection/${artwork.objectNumber}`
+        },
+        id: `${set.id}-${artwork.objectNumber}`,
+        objectNumber: artwork.objectNumber,
+        relation: 'none',
+        relationDescription: '',
+        cropped: false,
+        cropX: 0,
+        cropY: 0,
+        cropWidth: artwork.image.width,
+        cropHeight: artwork.image.height,
+        origWidth: artwork.image.width,
+        origHeight: artwork.image.height,
+        image: {
+          guid: `${artwork.priref}-web`,
+          parentObjectNumber: artwork.objectNumber,
+          cdnUrl: this.webImage(artwork, origin).url,
+          cropX: 0,
+          cropY: 0,
+          width: artwork.image.width,
+          height: artwork.image.height,
+          offsetPercentageX: 0,
+          offsetPercentageY: 0
+        }
+      }))
+    };
+  }
+
+  private serveImage(segments: string[], res: http.ServerResponse): void {
+    const key = segments.join('/');
+    const cached = this.images.get(key);
+    if (cached) return this.sendPng(res, cached);
+
+    let png: Buffer | null = null;
+    if (segments[0] === 'web' && segments.length === 2) {
+      const artwork = this.findArtwork(segments[1].replace(/\.png$/, ''));
+      if (artwork) {
+        png = this.renderRegion(artwork, 0, artwork.image.width, artwork.image.height, artwork.image.height);
+      }
+    } else if (segments[0] === 'tiles' && segments.length === 4) {
+      const artwork = this.findArtwork(segments[1]);
+      const level = Number(segments[2].replace(/^z/, ''));
+      const [x, y] = segments[3].replace(/\.png$/, '').split('_').map(Number);
+      if (artwork && Number.isInteger(level) && level >= 0 && level < TILE_LEVELS) {
+        const levelWidth = Math.max(1, Math.round(artwork.image.width / 2 ** level));
+        const levelHeight = Math.max(1, Math.round(artwork.image.height / 2 ** level));
+        const left = x * TILE_SIZE;
+        const top = y * TILE_SIZE;
+        if (left < levelWidth && top < levelHeight) {
+          png = this.renderRegion(artwork, top, Math.min(TILE_SIZE, levelWidth - left), Math.min(TILE_SIZE, levelHeight - top), levelHeight);
+        }
+      }
+    }
+
+    if (!png) {
+      res.writeHead(404, { 'Content-Type': 'text/plain' });
+      res.end('Image not found');
+      return;
+    }
+
+    this.images.set(key, png);
+    this.sendPng(res, png);
+  }
+
+  /**
+   * Paints the artwork's palette as horizontal bands sized by colour percentage,
+   * so tiles at every zoom level line up when stitched back together.
+   */
+  private renderRegion(artwork: MockArtwork, top: number, width: number, height: number, fullHeight: number): Buffer {
+    const total = artwork.colors.reduce((sum, color) => sum + color.percentage, 0) || 1;
+    const bands: Array<{ until: number; rgb: [number, number, number] }> = [];
+    let cumulative = 0;
+    for (const color of artwork.colors) {
+      cumulative += color.percentage / total;
+      bands.push({ until: cumulative, rgb: hexToRgb(color.hex) });
+    }
+
+    return encodePng(width, height, (_x, y) => {
+      const position = (top + y + 0.5) / fullHeight;
+      return (bands.find(band => position <= band.until) ?? bands[bands.length - 1]).rgb;
+    });
+  }
+
+  private sendJson(res: http.ServerResponse, status: number, body: unknown): void {
+    res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8' });
+    res.end(JSON.stringify(body));
+  }
+
+  private sendPng(res: http.ServerResponse, png: Buffer): void {
+    res.writeHead(200, { 'Content-Type': 'image/png', 'Content-Length': png.length });
+    res.end(png);
+  }
+} 
\ No newline at end of file
@@ -0,0 +1,505 @@
+export type Culture = 'nl' | 'en';
+
+export interface Localized {
+  en: string;
+  nl: string;
+}
+
+export interface MockMaker {
+  name: string;
+  unFixedName: string;
+  placeOfBirth: string;
+  dateOfBirth: string;
+  placeOfDeath: string;
+  dateOfDeath: string;
+  occupation: string[];
+  nationality: string;
+}
+
+export interface MockArtwork {
+  objectNumber: string;
+  priref: string;
+  title: Localized;
+  maker: MockMaker;
+  presentingDate: Localized;
+  sortingDate: number;
+  yearEarly: number;
+  yearLate: number;
+  period: number;
+  objectTypes: Localized[];
+  materials: Localized[];
+  techniques: Localized[];
+  productionPlaces: string[];
+  physicalMedium: Localized;
+  description: Localized;
+  labelText: Localized | null;
+  plaqueDescriptionDutch: string | null;
+  plaqueDescriptionEnglish: string | null;
+  dimensions: Array<{ type: Localized; unit: string; value: string; part: Localized | null }>;
+  colors: Array<{ percentage: number; hex: string }>;
+  normalized32Colors: Array<{ percentage: number; hex: string }>;
+  iconClassIdentifier: string[];
+  historicalPersons: string[];
+  inscriptions: string[];
+  documentation: string[];
+  acquisition: { method: Localized; date: string; creditLine: Localized };
+  location: string;
+  toppiece: boolean;
+  image: { width: number; height: number };
+}
+
+export interface MockUserSet {
+  id: string;
+  name: string;
+  description: string | null;
+  userId: number;
+  userName: string;
+  objectNumbers: string[];
+  createdOn: string;
+  updatedOn: string;
+}
+
+const REMBRANDT: MockMaker = {
+  name: 'Rembrandt van Rijn',
+  unFixedName: 'Rijn, Rembrandt van',
+  placeOfBirth: 'Leiden',
+  dateOfBirth: '1606-07-15',
+  placeOfDeath: 'Amsterdam',
+  dateOfDeath: '1669-10-08',
+  occupation: ['draughtsman', 'painter', 'printmaker'],
+  nationality: 'Noord-Nederlands'
+};
+
+const VERMEER: MockMaker = {
+  name: 'Johannes Vermeer',
+  unFixedName: 'Vermeer, Johannes',
+  placeOfBirth: 'Delft',
+  dateOfBirth: '1632-10-31',
+  placeOfDeath: 'Delft',
+  dateOfDeath: '1675-12-15',
+  occupation: ['painter'],
+  nationality: 'Noord-Nederlands'
+};
+
+const VAN_GOGH: MockMaker = {
+  name: 'Vincent van Gogh',
+  unFixedName: 'Gogh, Vincent van',
+  placeOfBirth: 'Zundert',
+  dateOfBirth: '1853-03-30',
+  placeOfDeath: 'Auvers-sur-Oise',
+  dateOfDeath: '1890-07-29',
+  occupation: ['draughtsman', 'painter'],
+  nationality: 'Nederlands'
+};
+
+const HALS: MockMaker = {
+  name: 'Frans Hals',
+  unFixedName: 'Hals, Frans',
+  placeOfBirth: 'Antwerpen',
+  dateOfBirth: '1582',
+  placeOfDeath: 'Haarlem',
+  dateOfDeath: '1666-08-26',
+  occupation: ['painter'],
+  nationality: 'Noord-Nederlands'
+};
+
+const PAINTING: Localized = { en: 'painting', nl: 'schilderij' };
+const PRINT: Localized = { en: 'print', nl: 'prent' };
+const CANVAS: Localized = { en: 'canvas', nl: 'doek' };
+const OIL_PAINT: Localized = { en: 'oil paint', nl: 'olieverf' };
+const PAPER: Localized = { en: 'paper', nl: 'papier' };
+const CARDBOARD: Localized = { en: 'cardboard', nl: 'karton' };
+const HEIGHT: Localized = { en: 'height', nl: 'hoogte' };
+const WIDTH: Localized = { en: 'width', nl: 'breedte' };
+const WEIGHT: Localized = { en: 'weight', nl: 'gewicht' };
+const PURCHASE: Localized = { en: 'purchase', nl: 'aankoop' };
+const LOAN: Localized = { en: 'loan', nl: 'bruikleen' };
+
+export const ARTWORKS: MockArtwork[] = [
+  {
+    objectNumber: 'SK-C-5',
+    priref: '5216',
+    title: { en: 'The Night Watch', nl: 'De Nachtwacht' },
+    maker: REMBRANDT,
+    presentingDate: { en: '1642', nl: '1642' },
+    sortingDate: 1642,
+    yearEarly: 1642,
+    yearLate: 1642,
+    period: 17,
+    objectTypes: [PAINTING],
+    materials: [CANVAS, OIL_PAINT],
+    techniques: [],
+    productionPlaces: ['Amsterdam'],
+    physicalMedium: { en: 'oil on canvas', nl: 'olieverf op doek' },
+    description: {
+      en: "Officers and other civic guardsmen of District II in Amsterdam, under the command of Captain Frans Banninck Cocq and Lieutenant Willem van Ruytenburch, known as 'The Night Watch'.",
+      nl: 'Officieren en andere schutters van wijk II in Amsterdam onder leiding van kapitein Frans Banninck Cocq en luitenant Willem van Ruytenburch, bekend als de ‘Nachtwacht’.'
+    },
+    labelText: null,
+    plaqueDescriptionDutch: 'Rembrandts beroemdste en grootste doek werd gemaakt voor de Kloveniersdoelen.',
+    plaqueDescriptionEnglish: "Rembrandt's largest, most famous canvas was made for the Arquebusiers guild hall.",
+    dimensions: [
+      { type: HEIGHT, unit: 'cm', value: '379.5', part: null },
+      { type: WIDTH, unit: 'cm', value: '453.5', part: null },
+      { type: WEIGHT, unit: 'kg', value: '337', part: null },
+      { type: HEIGHT, unit: 'cm', value: '402', part: { en: 'outer frame', nl: 'buitenmaat lijst' } },
+      { type: WIDTH, unit: 'cm', value: '485', part: { en: 'outer frame', nl: 'buitenmaat lijst' } }
+    ],
+    colors: [
+      { percentage: 41, hex: '#261808' },
+      { percentage: 21, hex: '#5E3C14' },
+      { percentage: 16, hex: '#9C6E28' },
+      { percentage: 12, hex: '#C49B55' },
+      { percentage: 10, hex: '#0E0B08' }
+    ],
+    normalized32Colors: [
+      { percentage: 45, hex: '#000000' },
+      { percentage: 22, hex: '#8B4513' },
+      { percentage: 15, hex: '#B8860B' },
+      { percentage: 10, hex: '#DAA520' },
+      { percentage: 8, hex: '#2F4F4F' }
+    ],
+    iconClassIdentifier: ['45(+26)', '45C13', '61B2(Banninck Cocq, Frans)', '31D11'],
+    historicalPersons: ['Banninck Cocq, Frans', 'Ruytenburch, Willem van'],
+    inscriptions: ['Rembrandt f 1642'],
+    documentation: ['E. van de Wetering, Rembrandt: The Painter Thinking, Amsterdam 2016, p. 199'],
+    acquisition: {
+      method: LOAN,
+      date: '1808-01-01T00:00:00',
+      creditLine: { en: 'On loan from the City of Amsterdam', nl: 'Bruikleen van de Gemeente Amsterdam' }
+    },
+    location: 'HG-2.31',
+    toppiece: true,
+    image: { width: 2048, height: 1714 }
+  },
+  {
+    objectNumber: 'SK-A-4050',
+    priref: '5355',
+    title: { en: 'Self-portrait as the Apostle Paul', nl: 'Zelfportret als de apostel Paulus' },
+    maker: REMBRANDT,
+    presentingDate: { en: '1661', nl: '1661' },
+    sortingDate: 1661,
+    yearEarly: 1661,
+    yearLate: 1661,
+    period: 17,
+    objectTypes: [PAINTING],
+    materials: [CANVAS, OIL_PAINT],
+    techniques: [],
+    productionPlaces: ['Amsterdam'],
+    physicalMedium: { en: 'oil on canvas', nl: 'olieverf op doek' },
+    description: {
+      en: 'Rembrandt portrayed himself here as the apostle Paul, recognisable by the sword hilt protruding from his cloak and the manuscript in his hands.',
+      nl: 'Rembrandt portretteerde zichzelf als de apostel Paulus, herkenbaar aan het gevest van het zwaard en het manuscript in zijn handen.'
+    },
+    labelText: { en: 'Self-portrait as the Apostle Paul', nl: 'Zelfportret als de apostel Paulus' },
+    plaqueDescriptionDutch: null,
+    plaqueDescriptionEnglish: 'Late in his career Rembrandt cast himself in a biblical role.',
+    dimensions: [
+      { type: HEIGHT, unit: 'cm', value: '91', part: null },
+      { type: WIDTH, unit: 'cm', value: '77', part: null }
+    ],
+    colors: [
+      { percentage: 48, hex: '#1E150C' },
+      { percentage: 24, hex: '#4D3520' },
+      { percentage: 18, hex: '#8A6A48' },
+      { percentage: 10, hex: '#C7A47C' }
+    ],
+    normalized32Colors: [
+      { percentage: 52, hex: '#000000' },
+      { percentage: 26, hex: '#8B4513' },
+      { percentage: 14, hex: '#A0522D' },
+      { percentage: 8, hex: '#DEB887' }
+    ],
+    iconClassIdentifier: ['11H(PAUL)', '61B2(Rembrandt)', '31D14'],
+    historicalPersons: ['Rembrandt van Rijn'],
+    inscriptions: ['Rembrandt f. 1661'],
+    documentation: [],
+    acquisition: {
+      method: PURCHASE,
+      date: '1956-01-01T00:00:00',
+      creditLine: { en: 'Purchased with the support of the Vereniging Rembrandt', nl: 'Aankoop met steun van de Vereniging Rembrandt' }
+    },
+    location: 'HG-2.31',
+    toppiece: true,
+    image: { width: 1700, height: 2012 }
+  },
+  {
+    objectNumber: 'RP-P-OB-729',
+    priref: '70004',
+    title: { en: 'Self-portrait leaning on a stone sill', nl: 'Zelfportret leunend op een stenen bank' },
+    maker: REMBRANDT,
+    presentingDate: { en: '1639', nl: '1639' },
+    sortingDate: 1639,
+    yearEarly: 1639,
+    yearLate: 1639,
+    period: 17,
+    objectTypes: [PRINT],
+    materials: [PAPER],
+    techniques: [{ en: 'etching', nl: 'etsen' }, { en: 'drypoint', nl: 'droge naald' }],
+    productionPlaces: ['Amsterdam'],
+    physicalMedium: { en: 'etching and drypoint on paper', nl: 'ets en droge naald op papier' },
+    description: {
+      en: 'Rembrandt in a velvet cap and a fur-trimmed cloak, resting his arm on a stone sill.',
+      nl: 'Rembrandt met fluwelen baret en een met bont afgezette mantel, leunend op een stenen bank.'
+    },
+    labelText: null,
+    plaqueDescriptionDutch: null,
+    plaqueDescriptionEnglish: null,
+    dimensions: [
+      { type: HEIGHT, unit: 'mm', value: '205', part: { en: 'sheet', nl: 'blad' } },
+      { type: WIDTH, unit: 'mm', value: '164', part: { en: 'sheet', nl: 'blad' } }
+    ],
+    colors: [
+      { percentage: 62, hex: '#E6DCC8' },
+      { percentage: 25, hex: '#6E6456' },
+      { percentage: 13, hex: '#2A241E' }
+    ],
+    normalized32Colors: [
+      { percentage: 60, hex: '#F5F5DC' },
+      { percentage: 26, hex: '#696969' },
+      { percentage: 14, hex: '#000000' }
+    ],
+    iconClassIdentifier: ['61B2(Rembrandt)', '31D14', '41D221'],
+    historicalPersons: ['Rembrandt van Rijn'],
+    inscriptions: ['Rembrandt f 1639'],
+    documentation: ['Hollstein Dutch 21'],
+    acquisition: {
+      method: PURCHASE,
+      date: '1816-01-01T00:00:00',
+      creditLine: { en: 'Purchased', nl: 'Aankoop' }
+    },
+    location: '',
+    toppiece: false,
+    image: { width: 1600, height: 2000 }
+  },
+  {
+    objectNumber: 'SK-A-2344',
+    priref: '5303',
+    title: { en: 'The Milkmaid', nl: 'Het melkmeisje' },
+    maker: VERMEER,
+    presentingDate: { en: 'c. 1660', nl: 'ca. 1660' },
+    sortingDate: 1660,
+    yearEarly: 1657,
+    yearLate: 1661,
+    period: 17,
+    objectTypes: [PAINTING],
+    materials: [CANVAS, OIL_PAINT],
+    techniques: [],
+    productionPlaces: ['Delft'],
+    physicalMedium: { en: 'oil on canvas', nl: 'olieverf op doek' },
+    description: {
+      en: 'A maidservant pours milk, entirely absorbed in her work. Except for the stream of milk, everything else is still.',
+      nl: 'Een dienstmeid schenkt melk, volledig opgaand in haar werk. Op het straaltje melk na staat alles stil.'
+    },
+    // The English record of this painting has no label text, as with many real records
+    labelText: { en: '', nl: 'Het melkmeisje, Johannes Vermeer, ca. 1660' },
+    plaqueDescriptionDutch: 'Een dienstmeid schenkt geconcentreerd melk.',
+    plaqueDescriptionEnglish: null,
+    dimensions: [
+      { type: HEIGHT, unit: 'cm', value: '45.5', part: null },
+      { type: WIDTH, unit: 'cm', value: '41', part: null }
+    ],
+    colors: [
+      { percentage: 30, hex: '#6F6A4A' },
+      { percentage: 24, hex: '#1F3C6E' },
+      { percentage: 22, hex: '#D8B64A' },
+      { percentage: 14, hex: '#E9E2C9' },
+      { percentage: 10, hex: '#2B241A' }
+    ],
+    normalized32Colors: [
+      { percentage: 28, hex: '#556B2F' },
+      { percentage: 24, hex: '#4682B4' },
+      { percentage: 22, hex: '#DAA520' },
+      { percentage: 16, hex: '#F5F5DC' },
+      { percentage: 10, hex: '#000000' }
+    ],
+    iconClassIdentifier: ['33C5', '41C4', '41A7721', '47I2211'],
+    historicalPersons: [],
+    inscriptions: [],
+    documentation: ['W. Liedtke, Vermeer: The Complete Paintings, Antwerp 2008, no. 10'],
+    acquisition: {
+      method: PURCHASE,
+      date: '1908-01-01T00:00:00',
+      creditLine: { en: 'Purchased with the support of the Vereniging Rembrandt', nl: 'Aankoop met steun van de Vereniging Rembrandt' }
+    },
+    location: 'HG-2.22',
+    toppiece: true,
+    image: { width: 1850, height: 2048 }
+  },
+  {
+    objectNumber: 'SK-C-251',
+    priref: '5290',
+    title: { en: 'Woman Reading a Letter', nl: 'Brieflezende vrouw' },
+    maker: VERMEER,
+    presentingDate: { en: 'c. 1663', nl: 'ca. 1663' },
+    sortingDate: 1663,
+    yearEarly: 1662,
+    yearLate: 1664,
+    period: 17,
+    objectTypes: [PAINTING],
+    materials: [CANVAS, OIL_PAINT],
+    techniques: [],
+    productionPlaces: ['Delft'],
+    physicalMedium: { en: 'oil on canvas', nl: 'olieverf op doek' },
+    description: {
+      en: 'A young woman in a blue jacket stands by the window, reading a letter. The map on the wall may allude to a distant correspondent.',
+      nl: 'Een jonge vrouw in een blauw jak staat bij het venster en leest een brief. De kaart aan de muur verwijst mogelijk naar een verre afzender.'
+    },
+    labelText: null,
+    plaqueDescriptionDutch: null,
+    plaqueDescriptionEnglish: 'Vermeer leaves the content of the letter to our imagination.',
+    dimensions: [
+      { type: HEIGHT, unit: 'cm', value: '46.5', part: null },
+      { type: WIDTH, unit: 'cm', value: '39', part: null }
+    ],
+    colors: [
+      { percentage: 34, hex: '#2E4C78' },
+      { percentage: 28, hex: '#A89C80' },
+      { percentage: 22, hex: '#5C5442' },
+      { percentage: 16, hex: '#1A1712' }
+    ],
+    normalized32Colors: [
+      { percentage: 34, hex: '#4682B4' },
+      { percentage: 28, hex: '#D2B48C' },
+      { percentage: 22, hex: '#556B2F' },
+      { percentage: 16, hex: '#000000' }
+    ],
+    iconClassIdentifier: ['33C5', '49L17', '25U'],
+    historicalPersons: [],
+    inscriptions: [],
+    documentation: [],
+    acquisition: {
+      method: LOAN,
+      date: '1885-01-01T00:00:00',
+      creditLine: { en: 'On loan from the City of Amsterdam (A. van der Hoop Bequest)', nl: 'Bruikleen van de gemeente Amsterdam (legaat A. van der Hoop)' }
+    },
+    location: 'HG-2.22',
+    toppiece: true,
+    image: { width: 1700, height: 2048 }
+  },
+  {
+    objectNumber: 'SK-A-135',
+    priref: '5189',
+    title: { en: 'The Merry Drinker', nl: 'De vrolijke drinker' },
+    maker: HALS,
+    presentingDate: { en: 'c. 1628 - c. 1630', nl: 'ca. 1628 - ca. 1630' },
+    sortingDate: 1628,
+    yearEarly: 1628,
+    yearLate: 1630,
+    period: 17,
+    objectTypes: [PAINTING],
+    materials: [CANVAS, OIL_PAINT],
+    techniques: [],
+    productionPlaces: ['Haarlem'],
+    physicalMedium: { en: 'oil on canvas', nl: 'olieverf op doek' },
+    description: {
+      en: 'A cheerful man raises his glass and gestures towards the viewer, painted with loose, rapid brushstrokes.',
+      nl: 'Een vrolijke man heft zijn glas en gebaart naar de toeschouwer, geschilderd met losse, snelle penseelstreken.'
+    },
+    labelText: null,
+    plaqueDescriptionDutch: null,
+    plaqueDescriptionEnglish: null,
+    dimensions: [
+      { type: HEIGHT, unit: 'cm', value: '81', part: null },
+      { type: WIDTH, unit: 'cm', value: '66.5', part: null }
+    ],
+    colors: [
+      { percentage: 40, hex: '#3B3424' },
+      { percentage: 30, hex: '#8C7A52' },
+      { percentage: 18, hex: '#1C1A14' },
+      { percentage: 12, hex: '#D7C7A0' }
+    ],
+    normalized32Colors: [
+      { percentage: 40, hex: '#2F4F4F' },
+      { percentage: 30, hex: '#B8860B' },
+      { percentage: 18, hex: '#000000' },
+      { percentage: 12, hex: '#F5DEB3' }
+    ],
+    iconClassIdentifier: ['31A2512', '41C241', '31D14'],
+    historicalPersons: [],
+    inscriptions: ['FH'],
+    documentation: [],
+    acquisition: {
+      method: LOAN,
+      date: '1816-01-01T00:00:00',
+      creditLine: { en: 'On loan from the City of Amsterdam', nl: 'Bruikleen van de gemeente Amsterdam' }
+    },
+    location: 'HG-2.28',
+    toppiece: false,
+    image: { width: 1660, height: 2024 }
+  },
+  {
+    objectNumber: 'SK-A-3262',
+    priref: '5337',
+    title: { en: 'Self-portrait', nl: 'Zelfportret' },
+    maker: VAN_GOGH,
+    presentingDate: { en: '1887', nl: '1887' },
+    sortingDate: 1887,
+    yearEarly: 1887,
+    yearLate: 1887,
+    period: 19,
+    objectTypes: [PAINTING],
+    materials: [CARDBOARD, OIL_PAINT],
+    techniques: [],
+    productionPlaces: ['Paris'],
+    physicalMedium: { en: 'oil on cardboard', nl: 'olieverf op karton' },
+    description: {
+      en: 'Van Gogh painted this self-portrait in Paris, using rhythmic dashes of complementary colour in the manner of the pointillists.',
+      nl: 'Van Gogh schilderde dit zelfportret in Parijs, met ritmische toetsen in complementaire kleuren naar het voorbeeld van de pointillisten.'
+    },
+    labelText: { en: 'Self-portrait, Vincent van Gogh, 1887', nl: 'Zelfportret, Vincent van Gogh, 1887' },
+    plaqueDescriptionDutch: 'Van Gogh schilderde dit zelfportret in Parijs.',
+    plaqueDescriptionEnglish: 'Van Gogh painted this self-portrait in Paris.',
+    dimensions: [
+      { type: HEIGHT, unit: 'cm', value: '42', part: null },
+      { type: WIDTH, unit: 'cm', value: '34', part: null }
+    ],
+    colors: [
+      { percentage: 36, hex: '#4F7A8C' },
+      { percentage: 26, hex: '#C28A3C' },
+      { percentage: 22, hex: '#7F9C6A' },
+      { percentage: 16, hex: '#2B3640' }
+    ],
+    normalized32Colors: [
+      { percentage: 36, hex: '#4682B4' },
+      { percentage: 26, hex: '#CD853F' },
+      { percentage: 22, hex: '#6B8E23' },
+      { percentage: 16, hex: '#2F4F4F' }
+    ],
+    iconClassIdentifier: ['61B2(Gogh, Vincent van)', '31D14'],
+    historicalPersons: ['Gogh, Vincent van'],
+    inscriptions: [],
+    documentation: ['J.-B. de la Faille, The Works of Vincent van Gogh, Amsterdam 1970, F 296'],
+    acquisition: {
+      method: PURCHASE,
+      date: '1992-01-01T00:00:00',
+      creditLine: { en: 'Purchased with the support of the BankGiro Loterij', nl: 'Aankoop met steun van de BankGiro Loterij' }
+    },
+    location: 'HG-1.18',
+    toppiece: true,
+    image: { width: 1650, height: 2048 }
+  }
+];
+
+export const USER_SETS: MockUserSet[] = [
+  {
+    id: '1836065-meesterwerken',
+    name: 'Meesterwerken',
+    description: 'Highlights of the Gallery of Honour',
+    userId: 1836065,
+    userName: 'Rijksmuseum',
+    objectNumbers: ['SK-C-5', 'SK-A-2344', 'SK-C-251', 'SK-A-3262'],
+    createdOn: '2019-03-11T09:12:44.5430000Z',
+    updatedOn: '2024-02-01T14:03:10.1230000Z'
+  },
+  {
+    id: '7344-rembrandt',
+    name: 'Rembrandt',
+    description: null,
+    userId: 7344,
+    userName: 'curator',
+    objectNumbers: ['SK-C-5', 'SK-A-4050', 'RP-P-OB-729'],
+    createdOn: '2021-06-01T10:00:00.0000000Z',
+    updatedOn: '2021-06-01T10:00:00.0000000Z'
+  }
+]; 
\ No newline at end of file
@@ -0,0 +1,20 @@
+#!/usr/bin/env node
+import { MockRijksmuseumServer } from './MockRijksmuseumServer.js';
+
+const portArgIndex = process.argv.indexOf('--port');
+const port = Number(portArgIndex !== -1 ? process.argv[portArgIndex + 1] : process.env.MOCK_PORT ?? 3100);
+const host = process.env.MOCK_HOST ?? '127.0.0.1';
+
+const mock = new MockRijksmuseumServer();
+mock.start(port, host).then(baseUrl => {
+  console.error(`Mock Rijksmuseum API listening on ${baseUrl}`);
+  console.error(`Start the MCP server with RIJKSMUSEUM_API_BASE_URL=${baseUrl}`);
+}).catch(error => {
+  console.error('Failed to start mock Rijksmuseum API:', error);
+  process.exit(1);
+});
+
+process.on('SIGINT', async () => {
+  await mock.stop();
+  process.exit(0);
+}); 
\ No newline at end of file
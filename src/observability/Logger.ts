@@ -0,0 +1,66 @@
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error' | 'silent';
+
+export interface LogOptions {
+  level: LogLevel;
+}
+
+export const LOG_LEVELS: LogLevel[] = ['debug', 'info', 'warn', 'error', 'silent'];
+
+/**
+ * Writes one JSON object per line to stderr, which stdio clients keep apart
+ * from the protocol on stdout. Each line carries the time, level and message
+ * plus any fields given; errors are reduced to their name and message.
+ */
+export class Logger {
+  private threshold: number;
+
+  constructor(private level: LogLevel = 'info') {
+    this.threshold = LOG_LEVELS.indexOf(level);
+  }
+
+  setLevel(level: LogLevel): void {
+    this.level = level;
+    this.threshold = LOG_LEVELS.indexOf(level);
+  }
+
+  getLevel(): LogLevel {
+    return this.level;
+  }
+
+  isEnabled(level: Exclude<LogLevel, 'silent'>): boolean {
+    return LOG_LEVELS.indexOf(level) >= this.threshold;
+  }
+
+  debug(message: string, fields: Record<string, unknown> = {}): void {
+    this.write('debug', message, fields);
+  }
+
+  info(message: string, fields: Record<string, unknown> = {}): void {
+    this.write('info', message, fields);
+  }
+
+  warn(message: string, fields: Record<string, unknown> = {}): void {
+    this.write('warn', message, fields);
+  }
+
+  error(message: string, fields: Record<string, unknown> = {}): void {
+    this.write('error', message, fields);
+  }
+
+  private write(level: Exclude<LogLevel, 'silent'>, message: string, fields: Record<string, unknown>): void {
+    if (!this.isEnabled(level)) return;
+
+    const entry = { time: new Date().toISOString(), level, msg: message, ...fields };
+    let line: string;
+    try {
+      line = JSON.stringify(entry, (_key, value) => value instanceof Error ? { name: value.name, message: value.message } : value);
+    } catch {
+      // Circular or otherwise unserializable fields still leave a trace of the event
+      line = JSON.stringify({ time: entry.time, level, msg: message });
+    }
+    process.stderr.write(`${line}\n`);
+  }
+}
+
+// Shared by every module; index.ts applies the configured level at startup
+export const logger = new Logger(); 
\ No newline at end of file
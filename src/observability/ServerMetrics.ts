@@ -0,0 +1,155 @@
+import { CacheEndpoint, CacheStats } from '../cache/ResponseCache.js';
+
+// Upper bounds of the latency buckets in milliseconds; slower calls fall in a final open bucket
+const LATENCY_BUCKETS_MS = [50, 100, 250, 500, 1000, 2500, 5000, 10000];
+
+export interface LatencyStats {
+  count: number;
+  averageMs: number;
+  maxMs: number;
+  // Calls per bucket, keyed "<=50" … "<=10000" and ">10000"
+  histogram: Record<string, number>;
+}
+
+export interface ToolCallStats {
+  calls: number;
+  errors: number;
+  latency: LatencyStats;
+}
+
+export interface UpstreamEndpointStats {
+  requests: number;
+  failures: number;
+  latency: LatencyStats;
+}
+
+export interface CacheLookupStats {
+  hits: number;
+  misses: number;
+  hitRate: number;
+}
+
+export interface ServerStats {
+  startedAt: string;
+  uptimeSeconds: number;
+  tools: Record<string, ToolCallStats>;
+  upstream: {
+    endpoints: Record<string, UpstreamEndpointStats>;
+    retries: number;
+    rateLimitWaits: { requests: number; totalMs: number; maxMs: number };
+  };
+  cache: (CacheStats & { hitRateByEndpoint: Record<string, CacheLookupStats> }) | { enabled: false };
+  errorsByClass: Record<string, number>;
+}
+
+class Histogram {
+  private readonly buckets = new Array<number>(LATENCY_BUCKETS_MS.length + 1).fill(0);
+  private count = 0;
+  private totalMs = 0;
+  private maxMs = 0;
+
+  record(durationMs: number): void {
+    const bucket = LATENCY_BUCKETS_MS.findIndex(bound => durationMs <= bound);
+    this.buckets[bucket === -1 ? LATENCY_BUCKETS_MS.length : bucket]++;
+    this.count++;
+    this.totalMs += durationMs;
+    this.maxMs = Math.max(this.maxMs, durationMs);
+  }
+
+  getStats(): LatencyStats {
+    const histogram: Record<string, number> = {};
+    LATENCY_BUCKETS_MS.forEach((bound, index) => {
+      histogram[`<=${bound}`] = this.buckets[index];
+    });
+    histogram[`>${LATENCY_BUCKETS_MS[LATENCY_BUCKETS_MS.length - 1]}`] = this.buckets[LATENCY_BUCKETS_MS.length];
+
+    return {
+      count: this.count,
+      averageMs: this.count === 0 ? 0 : Math.round(this.totalMs / this.count),
+      maxMs: this.maxMs,
+      histogram
+    };
+  }
+}
+
+/**
+ * In-memory counters for the life of the process: tool calls, collection API
+ * requests per endpoint, cache lookups and failures by error class. Nothing is
+ * persisted; restarting the server starts the counts over.
+ */
+export class ServerMetrics {
+  private readonly startedAt = Date.now();
+  private readonly tools = new Map<string, { calls: number; errors: number; latency: Histogram }>();
+  private readonly endpoints = new Map<string, { requests: number; failures: number; latency: Histogram }>();
+  private readonly cacheLookups = new Map<CacheEndpoint, { hits: number; misses: number }>();
+  private readonly errors = new Map<string, number>();
+  private retries = 0;
+  private rateLimitWaits = { requests: 0, totalMs: 0, maxMs: 0 };
+
+  recordToolCall(tool: string, durationMs: number, failed: boolean): void {
+    const stats = this.tools.get(tool) ?? { calls: 0, errors: 0, latency: new Histogram() };
+    stats.calls++;
+    stats.latency.record(durationMs);
+    if (failed) {
+      stats.errors++;
+    }
+    this.tools.set(tool, stats);
+  }
+
+  // Durations include retries and rate limit waits, as that is what the caller waited for
+  recordUpstreamRequest(endpoint: string, durationMs: number, failed: boolean): void {
+    const stats = this.endpoints.get(endpoint) ?? { requests: 0, failures: 0, latency: new Histogram() };
+    stats.requests++;
+    stats.latency.record(durationMs);
+    if (failed) {
+      stats.failures++;
+    }
+    this.endpoints.set(endpoint, stats);
+  }
+
+  recordCacheLookup(endpoint: CacheEndpoint, hit: boolean): void {
+    const stats = this.cacheLookups.get(endpoint) ?? { hits: 0, misses: 0 };
+    if (hit) {
+      stats.hits++;
+    } else {
+      stats.misses++;
+    }
+    this.cacheLookups.set(endpoint, stats);
+  }
+
+  recordError(errorClass: string): void {
+    this.errors.set(errorClass, (this.errors.get(errorClass) ?? 0) + 1);
+  }
+
+  recordRetry(): void {
+    this.retries++;
+  }
+
+  recordRateLimitWait(waitMs: number): void {
+    // Requests that found a token straight away did not wait
+    if (waitMs <= 0) return;
+    this.rateLimitWaits.requests++;
+    this.rateLimitWaits.totalMs += waitMs;
+    this.rateLimitWaits.maxMs = Math.max(this.rateLimitWaits.maxMs, waitMs);
+  }
+
+  getStats(cache: CacheStats | null): ServerStats {
+    const hitRateByEndpoint: Record<string, CacheLookupStats> = {};
+    for (const [endpoint, { hits, misses }] of this.cacheLookups) {
+      hitRateByEndpoint[endpoint] = { hits, misses, hitRate: Number((hits / (hits + misses)).toFixed(3)) };
+    }
+
+    return {
+      startedAt: new Date(this.startedAt).toISOString(),
+      uptimeSeconds: Math.round((Date.now() - this.startedAt) / 1000),
+      tools: Object.fromEntries([...this.tools].map(([tool, { latency, ...counts }]) => [tool, { ...counts, latency: latency.getStats() }])),
+      upstream: {
+        endpoints: Object.fromEntries([...this.endpoints].map(([endpoint, { latency, ...counts }]) => [endpoint, { ...counts, latency: latency.getStats() }])),
+        retries: this.retries,
+        rateLimitWaits: { ...this.rateLimitWaits }
+      },
+      cache: cache?.enabled ? { ...cache, hitRateByEndpoint } : { enabled: false },
+      errorsByClass: Object.fromEntries(this.errors)
+    };
+  }
+} 
\ No newline at end of file
@@ -0,0 +1,131 @@
+import { RijksmuseumApiClient } from '../api/RijksmuseumApiClient.js';
+import {
+  ArtworkSearchResult,
+  FindByPaletteArguments,
+  PaletteColor,
+  PaletteMatch,
+  PaletteSearchResult
+} from '../types.js';
+import { colorDistance, earthMoversDistance, normalizeHex } from './paletteDistance.js';
+import { mapWithConcurrency } from '../utils/mapWithConcurrency.js';
+
+const DETAILS_CONCURRENCY = 4;
+const MATCH_PALETTE_SIZE = 5;
+
+/**
+ * Finds artworks with a similar color palette. Searches on the target's most
+ * dominant normalized colors to gather candidates, then ranks the candidates by
+ * earth mover's distance between their normalized32Colors histograms.
+ */
+export class PaletteMatcher {
+  constructor(private readonly apiClient: RijksmuseumApiClient) {}
+
+  async findSimilar(args: FindByPaletteArguments): Promise<PaletteSearchResult> {
+    const {
+      objectNumber,
+      type,
+      involvedMaker,
+      searchColors = 3,
+      candidatesPerColor = 20,
+      limit = 10,
+      culture = 'en'
+    } = args;
+
+    const palette = objectNumber
+      ? await this.paletteOf(objectNumber, culture)
+      : await this.snapToSearchPalette(args.colors ?? [], culture);
+    if (palette.length === 0) {
+      throw new Error(objectNumber
+        ? `Artwork ${objectNumber} has no color data to compare against`
+        : 'At least one color is required');
+    }
+
+    const searchedColors = [...palette]
+      .sort((a, b) => b.weight - a.weight)
+      .slice(0, searchColors)
+      .map(color => color.hex);
+
+    const candidates = new Map<string, ArtworkSearchResult>();
+    for (const color of searchedColors) {
+      const { artObjects } = await this.apiClient.searchArtworks({
+        color,
+        type,
+        involvedMaker,
+        imgonly: true,
+        ps: candidatesPerColor,
+        culture
+      });
+      for (const artwork of artObjects) {
+        if (artwork.objectNumber !== objectNumber) {
+          candidates.set(artwork.objectNumber, artwork);
+        }
+      }
+    }
+
+    let failed = 0;
+    const scored = await mapWithConcurrency([...candidates.values()], DETAILS_CONCURRENCY, async artwork => {
+      try {
+        const candidatePalette = await this.paletteOf(artwork.objectNumber, culture);
+        if (candidatePalette.length === 0) return null;
+        return this.toMatch(artwork, palette, candidatePalette);
+      } catch {
+        // One missing or broken record should not sink the whole ranking
+        failed++;
+        return null;
+      }
+    });
+
+    const matches = scored
+      .filter((match): match is PaletteMatch => match !== null)
+      .sort((a, b) => a.distance - b.distance)
+      .slice(0, limit);
+
+    return {
+      target: { objectNumber, palette },
+      searchedColors,
+      candidatesConsidered: candidates.size,
+      candidatesFailed: failed,
+      matches
+    };
+  }
+
+  private async paletteOf(objectNumber: string, culture: 'nl' | 'en'): Promise<PaletteColor[]> {
+    const { artObject } = await this.apiClient.getArtworkDetails(objectNumber, culture);
+    return (artObject.normalized32Colors ?? [])
+      .filter(color => color.percentage > 0)
+      .map(color => ({ hex: normalizeHex(color.hex), weight: color.percentage }));
+  }
+
+  /**
+   * The color search filter only matches the museum's 32 normalized colors, so
+   * arbitrary colors are moved to the nearest one listed in the search facets.
+   * Colors are kept as given when the API does not report that facet.
+   */
+  private async snapToSearchPalette(colors: NonNullable<FindByPaletteArguments['colors']>, culture: 'nl' | 'en'): Promise<PaletteColor[]> {
+    const { facets } = await this.apiClient.getSearchFacets({ culture });
+    const available = (facets.normalized32Colors ?? []).map(bucket => normalizeHex(bucket.key));
+
+    const merged = new Map<string, number>();
+    for (const color of colors) {
+      const hex = normalizeHex(color.hex);
+      const snapped = available.length === 0
+        ? hex
+        : available.reduce((best, candidate) => colorDistance(hex, candidate) < colorDistance(hex, best) ? candidate : best);
+      merged.set(snapped, (merged.get(snapped) ?? 0) + (color.weight ?? 1));
+    }
+    return [...merged].map(([hex, weight]) => ({ hex, weight }));
+  }
+
+  private toMatch(artwork: ArtworkSearchResult, target: PaletteColor[], palette: PaletteColor[]): PaletteMatch {
+    const distance = earthMoversDistance(target, palette);
+    return {
+      objectNumber: artwork.objectNumber,
+      title: artwork.title,
+      principalOrFirstMaker: artwork.principalOrFirstMaker,
+      distance: Number(distance.toFixed(2)),
+      similarity: Number(Math.max(0, 1 - distance / 100).toFixed(3)),
+      palette: [...palette].sort((a, b) => b.weight - a.weight).slice(0, MATCH_PALETTE_SIZE),
+      webImage: artwork.webImage?.url ?? null
+    };
+  }
+} 
\ No newline at end of file
@@ -0,0 +1,150 @@
+import { PaletteColor } from '../types.js';
+
+type Lab = [number, number, number];
+
+// Weights are scaled to integer units so the flow computation stays exact
+const MASS_UNITS = 1000;
+
+export function normalizeHex(hex: string): string {
+  return `#${hex.replace('#', '').toUpperCase()}`;
+}
+
+/**
+ * Converts an sRGB hex color to CIELAB (D65), where Euclidean distance roughly
+ * tracks perceived difference.
+ */
+export function hexToLab(hex: string): Lab {
+  const value = parseInt(hex.replace('#', ''), 16);
+  const [r, g, b] = [(value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff].map(channel => {
+    const c = channel / 255;
+    return c <= 0.04045 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+  });
+
+  const x = (r * 0.4124 + g * 0.3576 + b * 0.1805) / 0.95047;
+  const y = r * 0.2126 + g * 0.7152 + b * 0.0722;
+  const z = (r * 0.0193 + g * 0.1192 + b * 0.9505) / 1.08883;
+  const f = (t: number) => t > 0.008856 ? Math.cbrt(t) : 7.787 * t + 16 / 116;
+
+  return [116 * f(y) - 16, 500 * (f(x) - f(y)), 200 * (f(y) - f(z))];
+}
+
+export function colorDistance(a: string, b: string): number {
+  const [l1, a1, b1] = hexToLab(a);
+  const [l2, a2, b2] = hexToLab(b);
+  return Math.hypot(l1 - l2, a1 - a2, b1 - b2);
+}
+
+/**
+ * Earth mover's distance between two palettes, in CIELAB units: the average
+ * distance color mass has to travel to turn one palette into the other.
+ * Weights are normalized, so only the proportions matter.
+ */
+export function earthMoversDistance(from: PaletteColor[], to: PaletteColor[]): number {
+  const supply = toUnits(from);
+  const demand = toUnits(to);
+  if (supply.length === 0 || demand.length === 0) {
+    throw new Error('Cannot compare an empty palette');
+  }
+
+  // Min-cost flow over source -> supply colors -> demand colors -> sink
+  const n = supply.length;
+  const m = demand.length;
+  const source = 0;
+  const sink = n + m + 1;
+  const graph = new FlowGraph(n + m + 2);
+
+  supply.forEach((color, i) => graph.addEdge(source, 1 + i, color.units, 0));
+  demand.forEach((color, j) => graph.addEdge(1 + n + j, sink, color.units, 0));
+  const labs = demand.map(color => hexToLab(color.hex));
+  supply.forEach((color, i) => {
+    const [l1, a1, b1] = hexToLab(color.hex);
+    labs.forEach(([l2, a2, b2], j) => {
+      graph.addEdge(1 + i, 1 + n + j, MASS_UNITS, Math.hypot(l1 - l2, a1 - a2, b1 - b2));
+    });
+  });
+
+  return graph.minCostFlow(source, sink, MASS_UNITS) / MASS_UNITS;
+}
+
+function toUnits(palette: PaletteColor[]): Array<{ hex: string; units: number }> {
+  const colors = palette.filter(color => color.weight > 0);
+  const total = colors.reduce((sum, color) => sum + color.weight, 0);
+  if (total === 0) return [];
+
+  const scaled = colors.map(color => ({ hex: color.hex, units: Math.round(color.weight / total * MASS_UNITS) }));
+
+  // Give rounding leftovers to the heaviest color so both sides carry exactly MASS_UNITS
+  const heaviest = scaled.reduce((best, color) => color.units > best.units ? color : best);
+  heaviest.units += MASS_UNITS - scaled.reduce((sum, color) => sum + color.units, 0);
+  return scaled.filter(color => color.units > 0);
+}
+
+interface FlowEdge {
+  to: number;
+  capacity: number;
+  cost: number;
+  reverse: number;
+}
+
+class FlowGraph {
+  private edges: FlowEdge[][];
+
+  constructor(size: number) {
+    this.edges = Array.from({ length: size }, () => []);
+  }
+
+  addEdge(from: number, to: number, capacity: number, cost: number): void {
+    this.edges[from].push({ to, capacity, cost, reverse: this.edges[to].length });
+    this.edges[to].push({ to: from, capacity: 0, cost: -cost, reverse: this.edges[from].length - 1 });
+  }
+
+  /**
+   * Successive shortest paths with Bellman-Ford, which copes with the negative
+   * costs on residual edges. Returns the total cost of sending `amount` units.
+   */
+  minCostFlow(source: number, sink: number, amount: number): number {
+    let remaining = amount;
+    let totalCost = 0;
+
+    while (remaining > 0) {
+      const distance = new Array(this.edges.length).fill(Infinity);
+      const previous: Array<[number, number] | null> = new Array(this.edges.length).fill(null);
+      distance[source] = 0;
+
+      for (let changed = true; changed;) {
+        changed = false;
+        for (let node = 0; node < this.edges.length; node++) {
+          if (distance[node] === Infinity) continue;
+          this.edges[node].forEach((edge, index) => {
+            if (edge.capacity > 0 && distance[node] + edge.cost < distance[edge.to] - 1e-9) {
+              distance[edge.to] = distance[node] + edge.cost;
+              previous[edge.to] = [node, index];
+              changed = true;
+            }
+          });
+        }
+      }
+
+      if (distance[sink] === Infinity) break;
+
+      let push = remaining;
+      for (let node = sink; node !== source;) {
+        const [from, index] = previous[node]!;
+        push = Math.min(push, this.edges[from][index].capacity);
+        node = from;
+      }
+      for (let node = sink; node !== source;) {
+        const [from, index] = previous[node]!;
+        const edge = this.edges[from][index];
+        edge.capacity -= push;
+        this.edges[edge.to][edge.reverse].capacity += push;
+        node = from;
+      }
+
+      remaining -= push;
+      totalCost += push * distance[sink];
+    }
+
+    return totalCost;
+  }
+} 
\ No newline at end of file
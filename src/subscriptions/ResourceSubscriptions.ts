@@ -0,0 +1,155 @@
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { logger } from "../observability/Logger.js";
+
+export interface SubscriptionOptions {
+  pollIntervalSeconds: number;     // 0 disables subscriptions
+}
+
+interface Subscription {
+  servers: Set<Server>;
+  snapshot: string;
+}
+
+/**
+ * Tracks resources/subscribe requests and polls the subscribed resources,
+ * sending notifications/resources/updated to every subscriber when a
+ * resource's snapshot changes. Servers are tracked individually so one HTTP
+ * session closing only drops its own subscriptions.
+ */
+export class ResourceSubscriptions {
+  private subscriptions = new Map<string, Subscription>();
+  // URIs per server whose first snapshot is still being taken
+  private pending = new Map<Server, Set<string>>();
+  private timer: NodeJS.Timeout | null = null;
+  private polling = false;
+
+  /**
+   * @param takeSnapshot Returns a string that changes whenever the resource
+   *   does, reading past any cache. Throws for resources that cannot be watched.
+   */
+  constructor(
+    private readonly takeSnapshot: (uri: string) => Promise<string>,
+    private readonly options: SubscriptionOptions
+  ) {}
+
+  get enabled(): boolean {
+    return this.options.pollIntervalSeconds > 0;
+  }
+
+  async subscribe(server: Server, uri: string): Promise<void> {
+    if (!this.enabled) {
+      throw new Error('Resource subscriptions are disabled on this server');
+    }
+
+    const existing = this.subscriptions.get(uri);
+    if (existing) {
+      existing.servers.add(server);
+      return;
+    }
+
+    const pending = this.pending.get(server) ?? new Set<string>();
+    this.pending.set(server, pending.add(uri));
+
+    // Taking the first snapshot also rejects URIs we cannot watch
+    let snapshot: string;
+    try {
+      snapshot = await this.takeSnapshot(uri);
+    } catch (error) {
+      this.forgetPending(server, uri);
+      throw error;
+    }
+
+    // The session may have unsubscribed or closed while we were waiting
+    if (!this.forgetPending(server, uri)) return;
+
+    // Another session may have subscribed to the same URI while we were waiting
+    const created = this.subscriptions.get(uri);
+    if (created) {
+      created.servers.add(server);
+      return;
+    }
+    this.subscriptions.set(uri, { servers: new Set([server]), snapshot });
+    this.startPolling();
+  }
+
+  unsubscribe(server: Server, uri: string): void {
+    this.forgetPending(server, uri);
+    const subscription = this.subscriptions.get(uri);
+    if (!subscription) return;
+
+    subscription.servers.delete(server);
+    if (subscription.servers.size === 0) {
+      this.subscriptions.delete(uri);
+    }
+    this.stopPollingIfIdle();
+  }
+
+  removeServer(server: Server): void {
+    this.pending.delete(server);
+    for (const uri of [...this.subscriptions.keys()]) {
+      this.unsubscribe(server, uri);
+    }
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    this.subscriptions.clear();
+    this.pending.clear();
+  }
+
+  // Returns whether the subscribe was still pending, i.e. not cancelled meanwhile
+  private forgetPending(server: Server, uri: string): boolean {
+    const uris = this.pending.get(server);
+    const wasPending = uris?.delete(uri) ?? false;
+    if (uris?.size === 0) {
+      this.pending.delete(server);
+    }
+    return wasPending;
+  }
+
+  private startPolling(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => void this.poll(), this.options.pollIntervalSeconds * 1000);
+    this.timer.unref();
+  }
+
+  private stopPollingIfIdle(): void {
+    if (this.subscriptions.size === 0 && this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private async poll(): Promise<void> {
+    // A slow API must not stack up overlapping polls
+    if (this.polling) return;
+    this.polling = true;
+
+    try {
+      for (const [uri, subscription] of this.subscriptions) {
+        let snapshot: string;
+        try {
+          snapshot = await this.takeSnapshot(uri);
+        } catch (error) {
+          logger.warn('Failed to poll subscribed resource', { uri, error });
+          continue;
+        }
+
+        // Skip resources that were unsubscribed while we were fetching
+        if (snapshot === subscription.snapshot || this.subscriptions.get(uri) !== subscription) continue;
+        subscription.snapshot = snapshot;
+
+        await Promise.all([...subscription.servers].map(server =>
+          server.sendResourceUpdated({ uri }).catch(error => {
+            logger.warn('Failed to notify subscriber', { uri, error });
+          })
+        ));
+      }
+    } finally {
+      this.polling = false;
+    }
+  }
+} 
\ No newline at end of file
@@ -0,0 +1,996 @@
+import { Tool } from "@modelcontextprotocol/sdk/types.js";
+import { LOCAL_INDEX_FIELDS } from "../localIndex/LocalCollectionIndex.js";
+import { CITATION_FORMATS } from "../citation/citations.js";
+
+/**
+ * JSON Schema subset understood by validateToolArguments. The same object is
+ * advertised to clients as a tool's inputSchema and used to check its arguments.
+ */
+export interface JsonSchema {
+  type?: 'object' | 'string' | 'integer' | 'number' | 'boolean' | 'array';
+  description?: string;
+  enum?: readonly (string | number)[];
+  default?: unknown;
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  pattern?: string;
+  items?: JsonSchema;
+  minItems?: number;
+  maxItems?: number;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+}
+
+export interface ToolDefinition extends Tool {
+  inputSchema: Tool['inputSchema'] & JsonSchema & { type: 'object' };
+  // Validation-only: at least one of these arguments must be given. Kept out of
+  // inputSchema because several clients reject top-level anyOf in tool schemas.
+  requireOneOf?: string[];
+}
+
+const SEARCH_FILTER_PROPERTIES: Record<string, JsonSchema> = {
+  q: {
+    type: "string",
+    description: "General search query that will match against artist names, artwork titles, descriptions, materials, techniques, etc. Use this for broad searches like 'sunflowers', 'portrait', 'landscape', etc."
+  },
+  involvedMaker: {
+    type: "string",
+    description: "Search for artworks by a specific artist. Must be case-sensitive and exact, e.g., 'Rembrandt+van+Rijn', 'Vincent+van+Gogh'. Use + for spaces in names. If unsure of the exact name, look it up with resolve_artist first or set resolveMaker."
+  },
+  type: {
+    type: "string",
+    description: "Filter by the type of artwork. Common values include 'painting', 'print', 'drawing', 'sculpture', 'photograph', 'furniture'. Use singular form."
+  },
+  material: {
+    type: "string",
+    description: "Filter by the material used in the artwork. Examples: 'canvas', 'paper', 'wood', 'oil paint', 'marble'. Matches exact material names from the museum's classification."
+  },
+  technique: {
+    type: "string",
+    description: "Filter by the technique used to create the artwork. Examples: 'oil painting', 'etching', 'watercolor', 'photography'. Matches specific techniques from the museum's classification."
+  },
+  century: {
+    type: "integer",
+    description: "Filter artworks by the century they were created in. Use negative numbers for BCE, positive for CE. Range from -1 (100-1 BCE) to 21 (2000-2099 CE). Example: 17 for 17th century (1600-1699).",
+    minimum: -1,
+    maximum: 21
+  },
+  color: {
+    type: "string",
+    pattern: "^#?[0-9A-Fa-f]{6}$",
+    description: "Filter artworks by predominant color. Use hexadecimal color codes without the # symbol. Examples: 'FF0000' for red, '00FF00' for green, '0000FF' for blue. The API will match artworks containing this color."
+  },
+  imgonly: {
+    type: "boolean",
+    description: "When true, only returns artworks that have associated images. Set to true if you need to show or analyze the visual aspects of artworks.",
+    default: false
+  },
+  toppieces: {
+    type: "boolean",
+    description: "When true, only returns artworks designated as masterpieces by the Rijksmuseum. These are the most significant and famous works in the collection.",
+    default: false
+  }
+};
+
+const SORT_BY_PROPERTY: JsonSchema = {
+  type: "string",
+  enum: ["relevance", "objecttype", "chronologic", "achronologic", "artist", "artistdesc"],
+  description: "Determines the order of results. Options: 'relevance' (best matches first), 'objecttype' (grouped by type), 'chronologic' (oldest to newest), 'achronologic' (newest to oldest), 'artist' (artist name A-Z), 'artistdesc' (artist name Z-A).",
+  default: "relevance"
+};
+
+const SEARCH_CULTURE_PROPERTY: JsonSchema = {
+  type: "string",
+  enum: ["nl", "en"],
+  description: "Language for the search and returned data. Use 'en' for English or 'nl' for Dutch (Nederlands). Affects artwork titles, descriptions, and other text fields.",
+  default: "en"
+};
+
+const BILINGUAL_CULTURE_PROPERTY: JsonSchema = {
+  type: "string",
+  enum: ["nl", "en", "both"],
+  description: "Language for the search and returned data: 'en' for English, 'nl' for Dutch (Nederlands), or 'both' to search in both languages at once. " +
+               "With 'both', results are merged per artwork: values that differ between languages become { en, nl }, 'missingIn' lists fields that only one language has filled in, and 'foundIn' shows which language's search matched.",
+  default: "en"
+};
+
+const RESOLVE_MAKER_PROPERTY: JsonSchema = {
+  type: "boolean",
+  description: "When true, treat involvedMaker as free text (e.g. 'rembrandt', 'Van Gogh') and replace it with the best matching exact maker name before searching. The response reports the substitution in 'resolvedMaker'.",
+  default: false
+};
+
+// Applied to each result's details after searching, so they cost one details request per scanned result
+const SIZE_FILTER_PROPERTIES: Record<string, JsonSchema> = {
+  minHeightCm: {
+    type: "number",
+    description: "Only include artworks at least this tall, in centimetres. Measured on the artwork itself, not its frame.",
+    minimum: 0
+  },
+  maxHeightCm: {
+    type: "number",
+    description: "Only include artworks at most this tall, in centimetres.",
+    minimum: 0
+  },
+  minWidthCm: {
+    type: "number",
+    description: "Only include artworks at least this wide, in centimetres.",
+    minimum: 0
+  },
+  maxWidthCm: {
+    type: "number",
+    description: "Only include artworks at most this wide, in centimetres.",
+    minimum: 0
+  }
+};
+
+const DATE_FILTER_PROPERTIES: Record<string, JsonSchema> = {
+  yearFrom: {
+    type: "integer",
+    description: "Only include artworks dated in or after this year, judged by the dating's yearEarly–yearLate span."
+  },
+  yearTo: {
+    type: "integer",
+    description: "Only include artworks dated in or before this year."
+  },
+  date: {
+    type: "string",
+    description: "A date expression instead of yearFrom/yearTo, such as '1642-1650', 'c. 1650' (±10 years), 'c. 1665 ± 5', '1640s', '17th century', 'late 17th century', 'before 1600' or 'after 1650'."
+  },
+  dateMatch: {
+    type: "string",
+    description: "'overlap' keeps artworks whose dating overlaps the range at all; 'within' keeps only those dated entirely inside it.",
+    enum: ["overlap", "within"],
+    default: "overlap"
+  }
+};
+
+// At least one of these has to be present for a search to be meaningful
+const SEARCH_FILTER_NAMES = ["q", "involvedMaker", "type", "material", "technique", "century", "color"];
+
+export const TOOL_DEFINITIONS: ToolDefinition[] = [
+  {
+    name: "search_artwork",
+    description: "Search and filter artworks in the Rijksmuseum collection. This tool provides extensive filtering options including artist name, type of artwork, materials, techniques, time periods, colors, and more. Results can be sorted in various ways and are paginated.\n\n" +
+                "Size filters (minHeightCm, maxHeightCm, minWidthCm, maxWidthCm) and date filters (yearFrom, yearTo or a date expression) are applied after searching, by reading each result's details. " +
+                "A date range within one century also narrows the search to that century. " +
+                "With these filters, pages are scanned from p until a page's worth of matches is found, the response's scan.nextPage tells which p to continue from, and each artwork's matchedBecause explains why it passed. " +
+                "Size and date filters cannot be combined with culture 'both'.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        ...SEARCH_FILTER_PROPERTIES,
+        ...SIZE_FILTER_PROPERTIES,
+        ...DATE_FILTER_PROPERTIES,
+        resolveMaker: RESOLVE_MAKER_PROPERTY,
+        sortBy: SORT_BY_PROPERTY,
+        p: {
+          type: "integer",
+          description: "Page number for paginated results, starting at 0. Use in combination with 'ps' to navigate through large result sets. Note: p * ps cannot exceed 10,000.",
+          minimum: 0,
+          default: 0
+        },
+        ps: {
+          type: "integer",
+          description: "Number of artworks to return per page. Higher values return more results but take longer to process. Maximum of 100 items per page.",
+          minimum: 1,
+          maximum: 100,
+          default: 10
+        },
+        culture: BILINGUAL_CULTURE_PROPERTY
+      }
+    },
+    requireOneOf: [...SEARCH_FILTER_NAMES, "yearFrom", "yearTo", "date"]
+  },
+  {
+    name: "search_artwork_all",
+    description: "Search the Rijksmuseum collection and collect results across multiple pages in one call. Accepts the same filters as search_artwork, but walks the result pages automatically up to 'limit' artworks, removes duplicates by object number and stops at the API's 10,000 result window. The response reports the total number of matches next to the number actually fetched, and why collection stopped ('limit', 'exhausted' or 'resultWindow').",
+    inputSchema: {
+      type: "object",
+      properties: {
+        ...SEARCH_FILTER_PROPERTIES,
+        resolveMaker: RESOLVE_MAKER_PROPERTY,
+        sortBy: SORT_BY_PROPERTY,
+        ps: {
+          type: "integer",
+          description: "Number of artworks to request per page while walking the results. Larger pages need fewer requests. Maximum of 100 items per page.",
+          minimum: 1,
+          maximum: 100,
+          default: 100
+        },
+        limit: {
+          type: "integer",
+          description: "Maximum number of artworks to collect across all pages. Collection stops earlier when the search has fewer matches or the 10,000 result window is reached.",
+          minimum: 1,
+          maximum: 10000,
+          default: 100
+        },
+        culture: SEARCH_CULTURE_PROPERTY
+      }
+    },
+    requireOneOf: SEARCH_FILTER_NAMES
+  },
+  {
+    name: "get_search_facets",
+    description: "Show how a search breaks down before drilling in. Returns the total number of matching artworks and facet buckets with counts per value: 'maker', 'type', 'material', 'technique', 'dating.period' (century) and 'place'. Accepts the same filters as search_artwork; with no filters it describes the whole collection. Use the bucket keys as filter values in search_artwork.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        ...SEARCH_FILTER_PROPERTIES,
+        resolveMaker: RESOLVE_MAKER_PROPERTY,
+        culture: SEARCH_CULTURE_PROPERTY,
+        facets: {
+          type: "array",
+          items: {
+            type: "string",
+            enum: ["maker", "type", "material", "technique", "dating.period", "place"]
+          },
+          description: "Only return these facets. Omit to return every facet the API provides."
+        },
+        maxBuckets: {
+          type: "integer",
+          description: "Maximum number of buckets to return per facet, largest first. The response reports how many smaller buckets were left out.",
+          minimum: 1,
+          default: 10
+        }
+      }
+    }
+  },
+  {
+    name: "get_artwork_details",
+    description: "Retrieve comprehensive details about a specific artwork from the Rijksmuseum collection. Returns extensive information including:\n\n" +
+                "- Basic details (title, artist, dates)\n" +
+                "- Physical properties (dimensions, materials, techniques)\n" +
+                "- Historical context (dating, historical persons, documentation)\n" +
+                "- Visual information (colors, image data)\n" +
+                "- Curatorial information (descriptions, labels, location)\n" +
+                "- Acquisition details\n" +
+                "- Exhibition history\n\n" +
+                "This is the primary tool for in-depth research on a specific artwork, providing all available museum documentation and metadata.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        objectNumber: {
+          type: "string",
+          description: "The unique identifier of the artwork in the Rijksmuseum collection. Format is typically a combination of letters and numbers (e.g., 'SK-C-5' for The Night Watch, 'SK-A-3262' for Van Gogh's Self Portrait). Case-sensitive. This ID can be obtained from search results.",
+          minLength: 1
+        },
+        culture: {
+          type: "string",
+          enum: ["nl", "en", "both"],
+          description: "Language for the artwork details. Use 'en' for English or 'nl' for Dutch (Nederlands). Affects all textual information including descriptions, titles, and historical documentation. " +
+                       "'both' fetches both languages and merges them: values that differ become { en, nl } and 'missingIn' lists fields that only one language has filled in.",
+          default: "en"
+        },
+        includeImage: {
+          type: "boolean",
+          description: "Also return the artwork's web image as inline image content, so multimodal clients can see it alongside the details.",
+          default: false
+        },
+        maxSize: {
+          type: "number",
+          description: "Maximum width or height in pixels of the included image. Only used with includeImage. Defaults to the server's RIJKSMUSEUM_IMAGE_MAX_SIZE (1024 unless configured).",
+          minimum: 64,
+          maximum: 2048
+        }
+      },
+      required: ["objectNumber"]
+    }
+  },
+  {
+    name: "get_artwork_thumbnail",
+    description: "Download an artwork's web image and return it as inline image content, scaled down to fit maxSize and kept under the server's size cap. " +
+                "Use this to look at an artwork directly in the conversation instead of opening it in a browser. For close-ups of a detail, use get_artwork_region.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        objectNumber: {
+          type: "string",
+          description: "The unique identifier of the artwork, as used in get_artwork_details.",
+          minLength: 1
+        },
+        culture: {
+          type: "string",
+          enum: ["nl", "en"],
+          description: "Language for the title and maker in the accompanying summary.",
+          default: "en"
+        },
+        maxSize: {
+          type: "number",
+          description: "Maximum width or height of the returned image in pixels. The image is scaled down to fit, never up. Defaults to the server's RIJKSMUSEUM_IMAGE_MAX_SIZE (1024 unless configured).",
+          minimum: 64,
+          maximum: 2048
+        }
+      },
+      required: ["objectNumber"]
+    }
+  },
+  {
+    name: "compare_artworks",
+    description: "Compare 2 to 6 artworks side by side instead of diffing several get_artwork_details responses. " +
+                "Covers makers, dating, object types, materials, techniques, dimensions, dominant colors, Iconclass codes and acquisition.\n\n" +
+                "Every field lists each artwork's own values under 'byArtwork' and separates them into 'shared' (on all artworks), 'partlyShared' (on several, with their object numbers) and 'unique' (per artwork). " +
+                "Dating adds the overall year span and whether all dating ranges overlap; colors add the pairwise palette distance (0 means identical, roughly 100 separates black from white).",
+    inputSchema: {
+      type: "object",
+      properties: {
+        objectNumbers: {
+          type: "array",
+          description: "Object numbers of the artworks to compare, e.g. ['SK-C-5', 'SK-A-2344']. Duplicates are ignored.",
+          minItems: 2,
+          maxItems: 6,
+          items: {
+            type: "string",
+            minLength: 1
+          }
+        },
+        culture: {
+          type: "string",
+          enum: ["nl", "en"],
+          description: "Language of the compared values. Values are only comparable within one language.",
+          default: "en"
+        }
+      },
+      required: ["objectNumbers"]
+    }
+  },
+  {
+    name: "get_iiif_manifest",
+    description: "Generate a IIIF Presentation 3.0 manifest for an artwork or a whole user set, so IIIF viewers such as Mirador or Universal Viewer can open what you found. " +
+                "Manifests carry the label, description, metadata, rights and the credit line as required statement. Canvas sizes come from the full-resolution (z0) image.\n\n" +
+                "The same manifests are available as the resources art://artwork/{objectNumber}/manifest and art://userset/{setId}/manifest.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        objectNumber: {
+          type: "string",
+          description: "Build a single-canvas manifest for this artwork.",
+          minLength: 1
+        },
+        setId: {
+          type: "string",
+          description: "Build a manifest with one canvas per artwork in this user set, in set order. Artworks without an image are left out.",
+          minLength: 1
+        },
+        culture: {
+          type: "string",
+          enum: ["nl", "en"],
+          description: "Language of the manifest's labels and metadata.",
+          default: "en"
+        },
+        imageSource: {
+          type: "string",
+          enum: ["web", "tiles"],
+          description: "How canvases are painted. 'web' uses the single web image. 'tiles' paints the tiles of the most detailed zoom level with at most 64 tiles, each on its own region of the canvas.",
+          default: "web"
+        },
+        limit: {
+          type: "integer",
+          description: "Maximum number of artworks to include from a user set.",
+          minimum: 1,
+          maximum: 100,
+          default: 50
+        }
+      }
+    },
+    requireOneOf: ["objectNumber", "setId"]
+  },
+  {
+    name: "cite_artwork",
+    description: "Produce a ready-to-use citation for an artwork, or for every artwork in a user set. " +
+                "Citations are built from the principal makers, title, date, medium, object number, credit line and the artwork's page on the museum website.\n\n" +
+                "Formats: 'bibtex' (@misc entries), 'csl-json' (an array for Zotero, Pandoc and other CSL processors), 'ris', 'chicago' (17th edition) and 'mla' (9th edition). " +
+                "Batch citations are separated by blank lines.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        objectNumber: {
+          type: "string",
+          description: "Cite this artwork.",
+          minLength: 1
+        },
+        setId: {
+          type: "string",
+          description: "Cite every artwork in this user set, in set order.",
+          minLength: 1
+        },
+        format: {
+          type: "string",
+          enum: CITATION_FORMATS,
+          description: "Citation format."
+        },
+        culture: {
+          type: "string",
+          enum: ["nl", "en"],
+          description: "Language of the title, medium and web link. Style words such as 'Accessed' stay in English.",
+          default: "en"
+        },
+        limit: {
+          type: "integer",
+          description: "Maximum number of artworks to cite from a user set.",
+          minimum: 1,
+          maximum: 100,
+          default: 50
+        }
+      },
+      required: ["format"]
+    },
+    requireOneOf: ["objectNumber", "setId"]
+  },
+  {
+    name: "export_collection",
+    description: "Export a user set or the results of a search as a catalogue, with the full details of every artwork. " +
+                "Details are fetched a few at a time, so large exports take a while on a cold cache.\n\n" +
+                "Formats: 'csv' (one row per artwork, multi-valued fields joined with '; '), 'json-ld' (a schema.org Collection of VisualArtwork nodes) and 'markdown' (a catalogue with images). " +
+                "The response reports how many artworks were exported and which ones failed, followed by the document.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        setId: {
+          type: "string",
+          description: "Export the artworks of this user set, in set order.",
+          minLength: 1
+        },
+        ...SEARCH_FILTER_PROPERTIES,
+        resolveMaker: RESOLVE_MAKER_PROPERTY,
+        sortBy: SORT_BY_PROPERTY,
+        format: {
+          type: "string",
+          enum: ["csv", "json-ld", "markdown"],
+          description: "Output format of the catalogue."
+        },
+        culture: SEARCH_CULTURE_PROPERTY,
+        limit: {
+          type: "integer",
+          description: "Maximum number of artworks to export. Each one costs a details request on a cold cache.",
+          minimum: 1,
+          maximum: 500,
+          default: 100
+        }
+      },
+      required: ["format"]
+    },
+    requireOneOf: ["setId", ...SEARCH_FILTER_NAMES]
+  },
+  {
+    name: "get_artwork_image",
+    description: "Retrieve detailed image tile information for high-resolution viewing of an artwork. This tool provides data for implementing deep zoom functionality, allowing detailed examination of the artwork at various zoom levels.\n\n" +
+                "The response includes multiple zoom levels (z0 to z6):\n" +
+                "- z0: Highest resolution (largest image)\n" +
+                "- z6: Lowest resolution (smallest image)\n\n" +
+                "Each zoom level contains:\n" +
+                "- Total width and height of the image at that level\n" +
+                "- A set of image tiles that make up the complete image\n" +
+                "- Position information (x,y) for each tile\n\n" +
+                "This is particularly useful for:\n" +
+                "- Implementing deep zoom viewers\n" +
+                "- Studying fine artwork details\n" +
+                "- Analyzing brushwork or conservation details\n" +
+                "- Creating interactive viewing experiences",
+    inputSchema: {
+      type: "object",
+      properties: {
+        objectNumber: {
+          type: "string",
+          description: "The unique identifier of the artwork in the Rijksmuseum collection. Same format as used in get_artwork_details. The artwork must have an associated image for this to work.",
+          minLength: 1
+        },
+        culture: {
+          type: "string",
+          enum: ["nl", "en"],
+          description: "Language for the API response. Use 'en' for English or 'nl' for Dutch (Nederlands). While this endpoint primarily returns image data, any textual metadata will be in the specified language.",
+          default: "en"
+        }
+      },
+      required: ["objectNumber"]
+    }
+  },
+  {
+    name: "get_artwork_region",
+    description: "Retrieve an artwork as an actual image rather than tile metadata. The server fetches the image tiles it needs, stitches them together, and returns a JPEG of the whole artwork or of a cropped region.\n\n" +
+                "Use a region to zoom into details such as signatures, faces or brushwork. Regions are given in pixels of the full-resolution (z0) image or in percent of the image. " +
+                "Unless a zoom level is given, the lowest-resolution level that still fills maxSize is used, so small previews only download a few tiles.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        objectNumber: {
+          type: "string",
+          description: "The unique identifier of the artwork, as used in get_artwork_details.",
+          minLength: 1
+        },
+        culture: {
+          type: "string",
+          enum: ["nl", "en"],
+          description: "Language for the tiles request. Does not affect the image itself.",
+          default: "en"
+        },
+        level: {
+          type: "string",
+          description: "Zoom level to stitch, from 'z0' (highest resolution) to 'z6' (lowest). Chosen automatically when omitted.",
+          pattern: "^z[0-9]$"
+        },
+        region: {
+          type: "object",
+          description: "Part of the image to return. Omit for the whole artwork.",
+          properties: {
+            x: { type: "number", description: "Left edge of the region.", minimum: 0 },
+            y: { type: "number", description: "Top edge of the region.", minimum: 0 },
+            width: { type: "number", description: "Width of the region.", minimum: 1 },
+            height: { type: "number", description: "Height of the region.", minimum: 1 },
+            unit: {
+              type: "string",
+              enum: ["pixels", "percent"],
+              description: "Unit for x, y, width and height. Pixels refer to the full-resolution (z0) image.",
+              default: "pixels"
+            }
+          },
+          required: ["x", "y", "width", "height"]
+        },
+        maxSize: {
+          type: "number",
+          description: "Maximum width or height of the returned image in pixels. The result is scaled down to fit, never up. Defaults to the server's RIJKSMUSEUM_IMAGE_MAX_SIZE (1024 unless configured).",
+          minimum: 64,
+          maximum: 2048
+        }
+      },
+      required: ["objectNumber"]
+    }
+  },
+  {
+    name: "get_user_sets",
+    description: "Retrieve collections created by Rijksstudio users. These are curated sets of artworks that users have grouped together based on themes, artists, periods, or personal interests.\n\n" +
+                "Each set includes:\n" +
+                "- Basic information (name, description, creation date)\n" +
+                "- Creator details (username, language preference)\n" +
+                "- Collection statistics (number of items)\n" +
+                "- Navigation links (API and web URLs)\n\n" +
+                "This tool is useful for:\n" +
+                "- Discovering user-curated exhibitions\n" +
+                "- Finding thematically related artworks\n" +
+                "- Exploring popular artwork groupings\n" +
+                "- Studying collection patterns",
+    inputSchema: {
+      type: "object",
+      properties: {
+        page: {
+          type: "integer",
+          description: "Page number for paginated results, starting at 0. Use with pageSize to navigate through sets. Note: page * pageSize cannot exceed 10,000.",
+          minimum: 0,
+          default: 0
+        },
+        pageSize: {
+          type: "integer",
+          description: "Number of user sets to return per page. Must be between 1 and 100. Larger values return more results but take longer to process.",
+          minimum: 1,
+          maximum: 100,
+          default: 10
+        },
+        culture: {
+          type: "string",
+          enum: ["nl", "en"],
+          description: "Language for the response data. Use 'en' for English or 'nl' for Dutch (Nederlands). Affects set descriptions and user information.",
+          default: "en"
+        }
+      }
+    }
+  },
+  {
+    name: "get_user_set_details",
+    description: "Retrieve detailed information about a specific user-created collection in Rijksstudio. Returns comprehensive information about the set and its contents, including:\n\n" +
+                "- Set metadata (name, description, creation date)\n" +
+                "- Creator information\n" +
+                "- List of artworks in the set\n" +
+                "- Image data for each artwork\n" +
+                "- Navigation links\n\n" +
+                "This tool is particularly useful for:\n" +
+                "- Analyzing thematic groupings of artworks\n" +
+                "- Studying curatorial choices\n" +
+                "- Understanding collection patterns\n" +
+                "- Exploring relationships between artworks",
+    inputSchema: {
+      type: "object",
+      properties: {
+        setId: {
+          type: "string",
+          description: "The unique identifier of the user set to fetch. Format is typically 'userId-setname'. This ID can be obtained from the get_user_sets results."
+        },
+        culture: {
+          type: "string",
+          enum: ["nl", "en"],
+          description: "Language for the response data. Use 'en' for English or 'nl' for Dutch (Nederlands). Affects set descriptions and artwork information.",
+          default: "en"
+        },
+        page: {
+          type: "integer",
+          description: "Page number for paginated results, starting at 0. Use with pageSize to navigate through large sets. Note: page * pageSize cannot exceed 10,000.",
+          minimum: 0,
+          default: 0
+        },
+        pageSize: {
+          type: "integer",
+          description: "Number of artworks to return per page. Must be between 1 and 100. Default is 25. Larger values return more artworks but take longer to process.",
+          minimum: 1,
+          maximum: 100,
+          default: 25
+        }
+      },
+      required: ["setId"]
+    }
+  },
+  {
+    name: "create_collection",
+    description: "Start a personal collection kept by this server, independent of Rijksstudio. Collections are saved to the server's collections file and can be read back with get_collection or as the art://collection/{name} resource.\n\n" +
+                "Names are matched by their slug, so 'Dutch Skies' and 'dutch-skies' refer to the same collection. The name 'popular' is reserved.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        name: {
+          type: "string",
+          description: "Name of the new collection.",
+          minLength: 1
+        },
+        description: {
+          type: "string",
+          description: "What the collection is about."
+        }
+      },
+      required: ["name"]
+    }
+  },
+  {
+    name: "add_to_collection",
+    description: "Add artworks to a personal collection, with optional notes and tags. The artworks' details are looked up so the collection records their title, maker and image. " +
+                "Adding an artwork that is already in the collection keeps its place, replaces its notes if new notes are given and adds the new tags to its existing ones.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        collection: {
+          type: "string",
+          description: "Name or slug of the collection, as created with create_collection.",
+          minLength: 1
+        },
+        objectNumbers: {
+          type: "array",
+          items: { type: "string", minLength: 1 },
+          description: "Object numbers of the artworks to add, e.g. ['SK-C-5', 'SK-A-2344'].",
+          minItems: 1,
+          maxItems: 50
+        },
+        notes: {
+          type: "string",
+          description: "A note to store with each of the added artworks."
+        },
+        tags: {
+          type: "array",
+          items: { type: "string", minLength: 1 },
+          description: "Tags to attach to each of the added artworks. Tags are stored in lowercase."
+        },
+        culture: {
+          type: "string",
+          enum: ["nl", "en"],
+          description: "Language in which to record the titles and web links.",
+          default: "en"
+        }
+      },
+      required: ["collection", "objectNumbers"]
+    }
+  },
+  {
+    name: "remove_from_collection",
+    description: "Remove artworks from a personal collection. Object numbers that are not in the collection are reported rather than treated as an error.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        collection: {
+          type: "string",
+          description: "Name or slug of the collection.",
+          minLength: 1
+        },
+        objectNumbers: {
+          type: "array",
+          items: { type: "string", minLength: 1 },
+          description: "Object numbers of the artworks to remove.",
+          minItems: 1
+        }
+      },
+      required: ["collection", "objectNumbers"]
+    }
+  },
+  {
+    name: "list_collections",
+    description: "List the personal collections kept by this server with their item counts and creation and update dates. The entries have the same shape as get_user_sets results.",
+    inputSchema: {
+      type: "object",
+      properties: {}
+    }
+  },
+  {
+    name: "get_collection",
+    description: "Retrieve a personal collection and its artworks, in the order they were added. The result has the same shape as a Rijksstudio user set, with each item's title, maker, notes, tags and the date it was added.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        collection: {
+          type: "string",
+          description: "Name or slug of the collection.",
+          minLength: 1
+        },
+        tag: {
+          type: "string",
+          description: "Only return artworks with this tag."
+        }
+      },
+      required: ["collection"]
+    }
+  },
+  {
+    name: "open_image_in_browser",
+    description: "Open a high-resolution image of an artwork in the default web browser for viewing. This tool is useful when you want to examine an artwork visually or show it to the user. Works with any valid Rijksmuseum image URL.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        imageUrl: {
+          type: "string",
+          pattern: "^https?://",
+          description: "The full URL of the artwork image to open. Must be a valid HTTP/HTTPS URL from the Rijksmuseum's servers. These URLs can be obtained from artwork search results or details."
+        }
+      },
+      required: ["imageUrl"]
+    }
+  },
+  {
+    name: "resolve_artist",
+    description: "Find the exact maker names the Rijksmuseum uses for free-text artist input such as 'rembrandt', 'Van Gogh' or 'vermeer'. " +
+                "Searches such as involvedMaker need the exact name, and a near miss silently returns nothing, so resolve names here first.\n\n" +
+                "Returns ranked candidates with a similarity score, how the name matched ('exact', 'tokens', 'prefix' or 'fuzzy'), the number of works in the collection, and birth, death, nationality and occupation where known.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        name: {
+          type: "string",
+          description: "Artist name as free text. Case, accents, word order of first names and '+' separators do not matter.",
+          minLength: 1
+        },
+        limit: {
+          type: "integer",
+          description: "Maximum number of candidates to return. Each candidate costs up to two extra API requests on a cold cache.",
+          minimum: 1,
+          maximum: 10,
+          default: 5
+        },
+        culture: SEARCH_CULTURE_PROPERTY
+      },
+      required: ["name"]
+    }
+  },
+  {
+    name: "get_artist_timeline",
+    description: "Generate a chronological timeline of an artist's works in the Rijksmuseum collection. This tool is perfect for studying an artist's development, analyzing their artistic periods, or understanding their contribution to art history over time.\n\n" +
+                "Works are dated from the museum's dating records (sorting year, earliest and latest year, and the presented date with its precision) and carry the artist's age when made, based on the birth and death dates in principalMakers. " +
+                "The artist's documented career, from their earliest to their last dated work, is split into early, middle and late phases; works dated after the artist's death form a posthumous phase. " +
+                "Results are paginated: use 'page' to continue through the artist's complete body of work.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        artist: {
+          type: "string",
+          description: "The name of the artist to create a timeline for. Must match the museum's naming convention (e.g., 'Rembrandt van Rijn', 'Vincent van Gogh'). Case sensitive and exact match required, unless resolveArtist is set."
+        },
+        maxWorks: {
+          type: "integer",
+          description: "Number of works per page of the timeline.",
+          minimum: 1,
+          maximum: 100,
+          default: 10
+        },
+        page: {
+          type: "integer",
+          description: "Page of the timeline, starting at 0. The response reports the total number of works and whether more pages follow.",
+          minimum: 0,
+          default: 0
+        },
+        culture: {
+          type: "string",
+          enum: ["nl", "en"],
+          description: "Language for titles and dates. Use 'en' for English or 'nl' for Dutch (Nederlands).",
+          default: "en"
+        },
+        imagesOnly: {
+          type: "boolean",
+          description: "Only include works that have an image. Set to false for the complete body of work.",
+          default: true
+        },
+        resolveArtist: {
+          type: "boolean",
+          description: "When true, treat 'artist' as free text and use the best matching exact maker name. The response shows the name used and the original input.",
+          default: false
+        }
+      },
+      required: ["artist"]
+    }
+  },
+  {
+    name: "find_by_palette",
+    description: "Find artworks whose color palette resembles a given artwork or a set of colors. " +
+                "The server searches on the most dominant of the museum's 32 normalized colors to gather candidates, then ranks them by earth mover's distance between color histograms in CIELAB space.\n\n" +
+                "Each match reports a distance (0 means an identical palette; roughly 100 separates black from white), a similarity score between 0 and 1, and its dominant colors. " +
+                "Custom colors are moved to the nearest normalized museum color before searching.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        objectNumber: {
+          type: "string",
+          description: "Use the palette of this artwork as the target. The artwork itself is left out of the results.",
+          minLength: 1
+        },
+        colors: {
+          type: "array",
+          description: "Target palette as weighted colors, used when no objectNumber is given. Weights are relative and default to 1.",
+          minItems: 1,
+          maxItems: 16,
+          items: {
+            type: "object",
+            properties: {
+              hex: {
+                type: "string",
+                pattern: "^#?[0-9A-Fa-f]{6}$",
+                description: "Hexadecimal color, e.g. '#8B4513'."
+              },
+              weight: {
+                type: "number",
+                description: "Relative share of this color in the palette.",
+                minimum: 0
+              }
+            },
+            required: ["hex"]
+          }
+        },
+        type: SEARCH_FILTER_PROPERTIES.type,
+        involvedMaker: SEARCH_FILTER_PROPERTIES.involvedMaker,
+        searchColors: {
+          type: "integer",
+          description: "How many of the target's dominant colors to search on. More colors find more varied candidates at the cost of extra requests.",
+          minimum: 1,
+          maximum: 5,
+          default: 3
+        },
+        candidatesPerColor: {
+          type: "integer",
+          description: "Number of candidate artworks to fetch per searched color. Every candidate costs one details request on a cold cache.",
+          minimum: 1,
+          maximum: 50,
+          default: 20
+        },
+        limit: {
+          type: "integer",
+          description: "Maximum number of ranked matches to return.",
+          minimum: 1,
+          maximum: 50,
+          default: 10
+        },
+        culture: SEARCH_CULTURE_PROPERTY
+      }
+    },
+    requireOneOf: ["objectNumber", "colors"]
+  },
+  {
+    name: "search_by_subject",
+    description: "Find artworks by what they depict, using the Iconclass subject codes the museum assigns to its records. " +
+                "The subject is matched against the server's bundled Iconclass labels (e.g. 'Annunciation' becomes 73A5), or given directly as an Iconclass code. " +
+                "Artworks count as matches when one of their codes is the matched subject or falls below it in the Iconclass hierarchy.\n\n" +
+                "The API cannot filter on Iconclass, so candidates come from collection searches on the subject text and the matched labels, plus the local index when enabled. " +
+                "Every candidate costs one details request on a cold cache.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        subject: {
+          type: "string",
+          description: "Free-text subject such as 'Annunciation' or 'still life with fish', or an Iconclass code such as '73A5'.",
+          minLength: 1
+        },
+        candidatesPerQuery: {
+          type: "integer",
+          description: "Number of search results to check per searched query.",
+          minimum: 1,
+          maximum: 50,
+          default: 20
+        },
+        limit: {
+          type: "integer",
+          description: "Maximum number of matching artworks to return.",
+          minimum: 1,
+          maximum: 50,
+          default: 10
+        },
+        culture: SEARCH_CULTURE_PROPERTY
+      },
+      required: ["subject"]
+    }
+  },
+  {
+    name: "search_local_collection",
+    description: "Full-text search over the artworks stored in the server's local index. Unlike search_artwork, this searches fields the museum API cannot query, such as descriptions, inscriptions, documentation and historical persons. " +
+                "The index holds every artwork whose details the server has fetched, plus anything bulk-loaded with the harvest command, so results only cover what has been seen so far.\n\n" +
+                "Query syntax:\n" +
+                "- Bare words must all match, in any field: storm ship\n" +
+                "- Quotes match an exact phrase: \"night watch\"\n" +
+                "- field:term restricts a term or phrase to one field: inscriptions:signed\n" +
+                "- A trailing * matches prefixes: maker:rembr*\n" +
+                "- A leading - excludes matches: -type:print\n\n" +
+                `Fields: ${LOCAL_INDEX_FIELDS.join(', ')}.`,
+    inputSchema: {
+      type: "object",
+      properties: {
+        query: {
+          type: "string",
+          description: "Search query using the syntax above. Omit to list indexed artworks matching the other filters."
+        },
+        culture: {
+          type: "string",
+          enum: ["nl", "en"],
+          description: "Only return records indexed in this language. Omit to search both."
+        },
+        yearFrom: {
+          type: "integer",
+          description: "Only include artworks dated in or after this year."
+        },
+        yearTo: {
+          type: "integer",
+          description: "Only include artworks dated in or before this year."
+        },
+        hasImage: {
+          type: "boolean",
+          description: "Only include artworks with (true) or without (false) a web image."
+        },
+        limit: {
+          type: "integer",
+          description: "Maximum number of results to return.",
+          minimum: 1,
+          maximum: 100,
+          default: 10
+        },
+        offset: {
+          type: "integer",
+          description: "Number of ranked results to skip, for paging.",
+          minimum: 0,
+          default: 0
+        }
+      }
+    }
+  },
+  {
+    name: "cache_stats",
+    description: "Report the state of the server's response cache: number of cached entries per endpoint, hit and miss counts, hit rate, evictions and where the cache is persisted on disk (if anywhere). Useful for checking whether repeated lookups are being served locally.",
+    inputSchema: {
+      type: "object",
+      properties: {}
+    }
+  },
+  {
+    name: "clear_cache",
+    description: "Remove cached Rijksmuseum API responses so the next request fetches fresh data. Clears everything by default, or only the entries for a single endpoint.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        endpoint: {
+          type: "string",
+          enum: ["search", "details", "tiles", "userSets", "userSetDetails"],
+          description: "Only clear entries for this endpoint: 'search' (collection searches), 'details' (artwork details), 'tiles' (image tiles), 'userSets' (user set listings) or 'userSetDetails' (individual user sets). Omit to clear the whole cache."
+        }
+      }
+    }
+  },
+  {
+    name: "server_stats",
+    description: "Report what the server has been doing since it started, to find out why a session was slow: calls, errors and latency histograms per tool, collection API requests and latency histograms per endpoint (including retries and rate limit waits), cache hit rates per endpoint and error counts by class. The same report is available as the art://server/stats resource.",
+    inputSchema: {
+      type: "object",
+      properties: {}
+    }
+  }
+];
+
+export function toAdvertisedTool({ requireOneOf, ...tool }: ToolDefinition): Tool {
+  return tool;
+} 
\ No newline at end of file
@@ -0,0 +1,110 @@
+import { McpError, ErrorCode } from "@modelcontextprotocol/sdk/types.js";
+import { JsonSchema, ToolDefinition } from "./toolDefinitions.js";
+
+/**
+ * Checks tool call arguments against the tool's advertised inputSchema and
+ * returns them with null-valued optional fields dropped. Throws InvalidParams
+ * naming the first field that fails.
+ */
+export function validateToolArguments(definition: ToolDefinition, args: unknown): Record<string, any> {
+  const fail = (message: string): never => {
+    throw new McpError(ErrorCode.InvalidParams, `Invalid arguments for ${definition.name}: ${message}`);
+  };
+
+  if (args === undefined || args === null) {
+    args = {};
+  }
+  if (typeof args !== 'object' || Array.isArray(args)) {
+    fail('arguments must be an object');
+  }
+
+  const schema = definition.inputSchema;
+  const properties = schema.properties ?? {};
+  const validated: Record<string, unknown> = {};
+
+  for (const [field, value] of Object.entries(args as Record<string, unknown>)) {
+    // Clients often send null for "not set"; treat it like an omitted field
+    if (value === null) continue;
+
+    const propertySchema = properties[field];
+    if (!propertySchema) {
+      fail(`unknown parameter '${field}'`);
+    }
+
+    const error = checkValue(propertySchema, value, field);
+    if (error) {
+      fail(error);
+    }
+    validated[field] = value;
+  }
+
+  for (const field of schema.required ?? []) {
+    if (validated[field] === undefined) {
+      fail(`missing required parameter '${field}'`);
+    }
+  }
+
+  const oneOf = definition.requireOneOf;
+  if (oneOf && !oneOf.some(field => validated[field] !== undefined)) {
+    fail(`at least one of ${oneOf.map(field => `'${field}'`).join(', ')} is required`);
+  }
+
+  return validated;
+}
+
+function checkValue(schema: JsonSchema, value: unknown, path: string): string | null {
+  switch (schema.type) {
+    case 'string':
+      if (typeof value !== 'string') return `'${path}' must be a string`;
+      if (schema.minLength !== undefined && value.length < schema.minLength) {
+        return `'${path}' must be at least ${schema.minLength} characters long`;
+      }
+      if (schema.pattern !== undefined && !new RegExp(schema.pattern).test(value)) {
+        return `'${path}' must match the pattern ${schema.pattern}`;
+      }
+      break;
+    case 'integer':
+    case 'number':
+      if (typeof value !== 'number' || !Number.isFinite(value)) return `'${path}' must be a number`;
+      if (schema.type === 'integer' && !Number.isInteger(value)) return `'${path}' must be an integer`;
+      if (schema.minimum !== undefined && value < schema.minimum) return `'${path}' must be at least ${schema.minimum}`;
+      if (schema.maximum !== undefined && value > schema.maximum) return `'${path}' must be at most ${schema.maximum}`;
+      break;
+    case 'boolean':
+      if (typeof value !== 'boolean') return `'${path}' must be a boolean`;
+      break;
+    case 'array':
+      if (!Array.isArray(value)) return `'${path}' must be an array`;
+      if (schema.minItems !== undefined && value.length < schema.minItems) {
+        return `'${path}' must contain at least ${schema.minItems} items`;
+      }
+      if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+        return `'${path}' must contain at most ${schema.maxItems} items`;
+      }
+      if (schema.items) {
+        for (let index = 0; index < value.length; index++) {
+          const error = checkValue(schema.items, value[index], `${path}[${index}]`);
+          if (error) return error;
+        }
+      }
+      break;
+    case 'object':
+      if (!value || typeof value !== 'object' || Array.isArray(value)) return `'${path}' must be an object`;
+      for (const field of schema.required ?? []) {
+        if ((value as Record<string, unknown>)[field] === undefined) return `'${path}.${field}' is required`;
+      }
+      for (const [field, fieldSchema] of Object.entries(schema.properties ?? {})) {
+        const fieldValue = (value as Record<string, unknown>)[field];
+        if (fieldValue === undefined || fieldValue === null) continue;
+        const error = checkValue(fieldSchema, fieldValue, `${path}.${field}`);
+        if (error) return error;
+      }
+      break;
+  }
+
+  if (schema.enum && !schema.enum.includes(value as string | number)) {
+    return `'${path}' must be one of ${schema.enum.map(option => JSON.stringify(option)).join(', ')}`;
+  }
+
+  return null;
+} 
\ No newline at end of file
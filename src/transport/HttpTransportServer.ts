@@ -0,0 +1,199 @@
+import http from 'http';
+import { randomUUID } from 'crypto';
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+import { logger } from "../observability/Logger.js";
+
+export interface HttpTransportOptions {
+  port: number;
+  host: string;
+}
+
+interface Session {
+  server: Server;
+  transport: StreamableHTTPServerTransport | SSEServerTransport;
+}
+
+const MCP_PATH = '/mcp';
+const SSE_PATH = '/sse';
+const SSE_MESSAGES_PATH = '/messages';
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+
+/**
+ * Serves MCP over HTTP: Streamable HTTP on /mcp, with the older SSE transport
+ * on /sse + /messages for clients that have not moved over yet. Every session
+ * gets its own Server instance from `createServer`.
+ */
+export class HttpTransportServer {
+  private httpServer: http.Server;
+  private sessions = new Map<string, Session>();
+
+  constructor(private readonly createServer: () => Server, private readonly options: HttpTransportOptions) {
+    this.httpServer = http.createServer((req, res) => {
+      this.handle(req, res).catch(error => {
+        logger.error('HTTP request failed', { method: req.method, url: req.url, error });
+        if (!res.headersSent) {
+          this.sendJsonRpcError(res, 500, -32603, 'Internal server error');
+        } else {
+          res.end();
+        }
+      });
+    });
+  }
+
+  async start(): Promise<void> {
+    await new Promise<void>((resolve, reject) => {
+      this.httpServer.once('error', reject);
+      this.httpServer.listen(this.options.port, this.options.host, () => resolve());
+    });
+  }
+
+  get sessionCount(): number {
+    return this.sessions.size;
+  }
+
+  async close(): Promise<void> {
+    // Closing a transport fires its onclose, which removes the session from the map
+    await Promise.allSettled([...this.sessions.values()].map(session => session.server.close()));
+    this.sessions.clear();
+
+    await new Promise<void>(resolve => {
+      this.httpServer.close(() => resolve());
+      this.httpServer.closeAllConnections();
+    });
+  }
+
+  private async handle(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const url = new URL(req.url ?? '/', `http://${req.headers.host ?? 'localhost'}`);
+
+    if (url.pathname === '/health' && req.method === 'GET') {
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ status: 'ok', sessions: this.sessions.size }));
+      return;
+    }
+
+    if (url.pathname === MCP_PATH) {
+      return this.handleStreamableHttp(req, res);
+    }
+
+    if (url.pathname === SSE_PATH && req.method === 'GET') {
+      return this.handleSseConnect(res);
+    }
+
+    if (url.pathname === SSE_MESSAGES_PATH && req.method === 'POST') {
+      return this.handleSseMessage(req, res, url.searchParams.get('sessionId'));
+    }
+
+    res.writeHead(404, { 'Content-Type': 'text/plain' });
+    res.end('Not found');
+  }
+
+  private async handleStreamableHttp(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const sessionId = req.headers['mcp-session-id'];
+    let body: unknown;
+    if (req.method === 'POST') {
+      const read = await this.readJsonBody(req, res);
+      if (!read.ok) return;
+      body = read.body;
+    }
+
+    if (typeof sessionId === 'string') {
+      const session = this.sessions.get(sessionId);
+      if (!session || !(session.transport instanceof StreamableHTTPServerTransport)) {
+        this.sendJsonRpcError(res, 404, -32001, 'Session not found');
+        return;
+      }
+      await session.transport.handleRequest(req, res, body);
+      return;
+    }
+
+    if (req.method !== 'POST' || !isInitializeRequest(body)) {
+      this.sendJsonRpcError(res, 400, -32000, 'Bad Request: No valid session ID provided');
+      return;
+    }
+
+    const server = this.createServer();
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: id => {
+        this.sessions.set(id, { server, transport });
+      }
+    });
+    transport.onclose = () => {
+      if (transport.sessionId) {
+        this.sessions.delete(transport.sessionId);
+      }
+    };
+
+    await server.connect(transport);
+    await transport.handleRequest(req, res, body);
+  }
+
+  private async handleSseConnect(res: http.ServerResponse): Promise<void> {
+    const server = this.createServer();
+    const transport = new SSEServerTransport(SSE_MESSAGES_PATH, res);
+    this.sessions.set(transport.sessionId, { server, transport });
+    transport.onclose = () => {
+      this.sessions.delete(transport.sessionId);
+    };
+
+    // connect() starts the transport, which writes the SSE headers and endpoint event
+    await server.connect(transport);
+  }
+
+  private async handleSseMessage(req: http.IncomingMessage, res: http.ServerResponse, sessionId: string | null): Promise<void> {
+    const session = sessionId ? this.sessions.get(sessionId) : undefined;
+    if (!session || !(session.transport instanceof SSEServerTransport)) {
+      res.writeHead(404, { 'Content-Type': 'text/plain' });
+      res.end('Session not found');
+      return;
+    }
+
+    const read = await this.readJsonBody(req, res);
+    if (!read.ok) return;
+    await session.transport.handlePostMessage(req, res, read.body);
+  }
+
+  /**
+   * Reads and parses a JSON request body. Writes the error response and
+   * returns `ok: false` when the body is too large, not valid JSON or `null`.
+   */
+  private async readJsonBody(req: http.IncomingMessage, res: http.ServerResponse): Promise<{ ok: true; body: unknown } | { ok: false }> {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    for await (const chunk of req) {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        this.sendJsonRpcError(res, 413, -32000, 'Request body too large');
+        return { ok: false };
+      }
+      chunks.push(chunk);
+    }
+
+    let body: unknown;
+    try {
+      body = JSON.parse(Buffer.concat(chunks).toString('utf8'));
+    } catch {
+      this.sendJsonRpcError(res, 400, -32700, 'Parse error: invalid JSON');
+      return { ok: false };
+    }
+
+    // Valid JSON, but no JSON-RPC message or batch
+    if (body === null) {
+      this.sendJsonRpcError(res, 400, -32600, 'Invalid Request: body must be a JSON-RPC message or batch');
+      return { ok: false };
+    }
+    return { ok: true, body };
+  }
+
+  private sendJsonRpcError(res: http.ServerResponse, status: number, code: number, message: string): void {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({
+      jsonrpc: '2.0',
+      error: { code, message },
+      id: null
+    }));
+  }
+}
@@ -28,12 +28,40 @@ export interface SearchParams {
   pageSize?: number;
 }
 
+export type LifePhase = 'early' | 'middle' | 'late' | 'posthumous';
+
 export interface TimelineArtwork {
-  year: string;
-  title: string;
   objectNumber: string;
+  title: string;
   description: string;
   image: string | null;
+  date: string | null;              // The museum's presentation, e.g. "c. 1660" or "1657 - 1661"
+  year: number | null;              // dating.sortingDate
+  yearEarly: number | null;
+  yearLate: number | null;
+  precision: 'year' | 'circa' | 'range' | 'unknown';
+  age: number | null;               // Artist's age in `year`, by birth year
+  ageRange: [number, number] | null; // Ages at yearEarly and yearLate when those differ
+  phase: LifePhase | null;
+}
+
+export interface TimelineMaker {
+  name: string;
+  dateOfBirth: string | null;
+  dateOfDeath: string | null;
+  placeOfBirth: string | null;
+  placeOfDeath: string | null;
+  birthYear: number | null;
+  deathYear: number | null;
+}
+
+export interface TimelinePhase {
+  phase: LifePhase;
+  fromYear: number;
+  toYear: number | null;            // Open-ended for posthumous works
+  fromAge: number | null;
+  toAge: number | null;
+  worksOnPage: number;
 }
 
 export interface ArtworkSearchResult {
@@ -52,6 +80,21 @@ export interface ArtworkSearchResult {
   };
 }
 
+export interface FacetBucket {
+  key: string;
+  count: number;
+}
+
+// Keyed by facet name: 'maker', 'type', 'material', 'technique', 'dating.period', 'place', ...
+export type SearchFacets = Record<string, FacetBucket[]>;
+
+export interface ArtworkSearchResponse {
+  count: number;
+  artObjects: ArtworkSearchResult[];
+  facets: SearchFacets;
+  resolvedMaker?: ResolvedMaker;  // Present when involvedMaker was rewritten by resolveMaker
+}
+
 export interface SearchArtworkArguments {
   q?: string;
   involvedMaker?: string;
@@ -66,6 +109,387 @@ export interface SearchArtworkArguments {
   p?: number;
   ps?: number;
   culture?: 'nl' | 'en';
+  resolveMaker?: boolean;        // Replace a fuzzy involvedMaker with the best resolve_artist match
+}
+
+// search_artwork also accepts 'both', which searches in English and Dutch and merges the results
+export interface SearchArtworkToolArguments extends Omit<SearchArtworkArguments, 'culture'>, SizeFilter, DateFilterArguments {
+  culture?: 'nl' | 'en' | 'both';
+}
+
+export interface BilingualRecord {
+  record: Record<string, unknown>;  // Language-neutral values as is, differing values as { en, nl }
+  missingIn: { en: string[]; nl: string[] }; // Dotted paths of fields only filled in the other language
+}
+
+export interface BilingualArtworkDetails {
+  objectNumber: string;
+  artObject: Record<string, unknown>;
+  missingIn: BilingualRecord['missingIn'];
+}
+
+export interface BilingualSearchResult extends BilingualRecord {
+  objectNumber: string;
+  foundIn: Array<'en' | 'nl'>;      // A full-text query may only match in one language
+}
+
+export interface BilingualSearchResponse {
+  count: { en: number; nl: number };
+  artObjects: BilingualSearchResult[];
+  resolvedMaker?: ResolvedMaker;
+}
+
+export interface MeasuredPart {
+  part: string | null;           // null for the object itself, otherwise e.g. 'outer frame' or 'sheet'
+  heightCm?: number;
+  widthCm?: number;
+  depthCm?: number;
+  diameterCm?: number;
+  weightKg?: number;
+}
+
+export interface ArtworkMeasurements {
+  main: MeasuredPart | null;     // The part that orientation, area and size filters refer to
+  parts: MeasuredPart[];
+  orientation: 'portrait' | 'landscape' | 'square' | null;
+  areaCm2: number | null;
+  unparsed: string[];            // Dimensions whose type, unit or value could not be read, as given
+}
+
+export interface SizeFilter {
+  minHeightCm?: number;
+  maxHeightCm?: number;
+  minWidthCm?: number;
+  maxWidthCm?: number;
+}
+
+export interface DateRange {
+  from: number | null;           // Inclusive; null for an open start
+  to: number | null;             // Inclusive; null for an open end
+  description: string;           // The range as read, e.g. "1640–1660 (c. 1650)"
+}
+
+export interface DateFilter extends DateRange {
+  match: 'overlap' | 'within';   // Whether an artwork's dating may overlap the range or must lie inside it
+}
+
+export interface DateFilterArguments {
+  yearFrom?: number;
+  yearTo?: number;
+  date?: string;                 // A date expression such as "c. 1650", "1640s" or "before 1600"
+  dateMatch?: 'overlap' | 'within';
+}
+
+// Filters the API cannot apply, checked against each result's details
+export interface PostFilter {
+  size?: SizeFilter;
+  dates?: DateFilter;
+}
+
+export type PostFilteredSearchResult = ArtworkSearchResult & {
+  dating: ArtworkDetails['artObject']['dating'];
+  measurements: ArtworkMeasurements;
+  matchedBecause: string[];
+};
+
+export interface PostFilteredSearchResponse {
+  count: number;                 // Matches for the search itself, before post-filtering
+  artObjects: PostFilteredSearchResult[];
+  resolvedMaker?: ResolvedMaker;
+  filters: PostFilter & { century?: number };  // century is set when the search was narrowed to the date range's century
+  scan: {
+    pagesScanned: number;
+    artworksScanned: number;
+    artworksFailed: number;
+    nextPage: number | null;     // Page to pass as p to continue scanning, null when the results are exhausted
+  };
+}
+
+export interface GetSearchFacetsArguments extends Omit<SearchArtworkArguments, 'p' | 'ps' | 'sortBy'> {
+  facets?: string[];
+  maxBuckets?: number;
+}
+
+export interface SearchAllArtworksArguments extends Omit<SearchArtworkArguments, 'p'> {
+  limit?: number;
+}
+
+export interface SearchAllArtworksResult {
+  totalCount: number;
+  fetched: number;
+  pagesFetched: number;
+  stopReason: 'limit' | 'exhausted' | 'resultWindow';
+  resolvedMaker?: ResolvedMaker;
+  artworks: ArtworkSearchResult[];
+}
+
+export interface PaletteColor {
+  hex: string;
+  weight: number;
+}
+
+export interface FindByPaletteArguments {
+  objectNumber?: string;
+  colors?: Array<{ hex: string; weight?: number }>;
+  type?: string;
+  involvedMaker?: string;
+  searchColors?: number;         // How many dominant colors to run searches for
+  candidatesPerColor?: number;
+  limit?: number;
+  culture?: 'nl' | 'en';
+}
+
+export interface PaletteMatch {
+  objectNumber: string;
+  title: string;
+  principalOrFirstMaker: string;
+  distance: number;              // Earth mover's distance in CIELAB units; 0 is an identical palette
+  similarity: number;            // 1 - distance / 100, clamped to 0..1
+  palette: PaletteColor[];
+  webImage: string | null;
+}
+
+export interface PaletteSearchResult {
+  target: {
+    objectNumber?: string;
+    palette: PaletteColor[];
+  };
+  searchedColors: string[];
+  candidatesConsidered: number;
+  candidatesFailed: number;
+  matches: PaletteMatch[];
+}
+
+export interface IconclassSubject {
+  code: string;
+  label: string | null;
+  hierarchy: Array<{ code: string; label: string }>;   // Labelled ancestors, broadest first
+}
+
+export interface SearchBySubjectArguments {
+  subject: string;
+  limit?: number;
+  candidatesPerQuery?: number;
+  culture?: 'nl' | 'en';
+}
+
+export interface SubjectMatch {
+  objectNumber: string;
+  title: string;
+  principalOrFirstMaker: string;
+  date: string | null;
+  matchedSubjects: IconclassSubject[];
+  webImage: string | null;
+}
+
+export interface SubjectSearchResult {
+  subject: string;
+  subjects: Array<IconclassSubject & { score: number }>;
+  searchedQueries: string[];
+  candidatesConsidered: number;
+  candidatesFailed: number;
+  matches: SubjectMatch[];
+}
+
+export interface GetIiifManifestArguments {
+  objectNumber?: string;
+  setId?: string;
+  culture?: 'nl' | 'en';
+  imageSource?: 'web' | 'tiles';
+  limit?: number;                // Artworks to include from a user set
+}
+
+export interface CiteArtworkArguments {
+  objectNumber?: string;
+  setId?: string;
+  format: 'bibtex' | 'csl-json' | 'ris' | 'chicago' | 'mla';
+  culture?: 'nl' | 'en';
+  limit?: number;                // Artworks to cite from a user set
+}
+
+export type ExportFormat = 'csv' | 'json-ld' | 'markdown';
+
+export interface ExportCollectionArguments extends Omit<SearchArtworkArguments, 'p' | 'ps' | 'culture'> {
+  setId?: string;
+  format: ExportFormat;
+  culture?: 'nl' | 'en';
+  limit?: number;
+}
+
+export interface CollectionExport {
+  source: {
+    kind: 'userset' | 'search';
+    name: string;
+    description: string | null;
+    totalItems: number;        // Size of the set or number of search matches, before the limit
+  };
+  format: ExportFormat;
+  exported: number;
+  failed: Array<{ objectNumber: string; error: string }>;
+  document: string;
+}
+
+export interface CompareArtworksArguments {
+  objectNumbers: string[];
+  culture?: 'nl' | 'en';
+}
+
+export interface ValueComparison {
+  shared: string[];                                              // Present on every artwork
+  partlyShared: Array<{ value: string; objectNumbers: string[] }>; // On more than one artwork, but not all
+  unique: Record<string, string[]>;                              // Keyed by object number
+}
+
+export interface FieldComparison<T> extends ValueComparison {
+  byArtwork: Record<string, T>;
+}
+
+export interface ComparedDating {
+  date: string | null;
+  yearEarly: number | null;
+  yearLate: number | null;
+}
+
+export interface ComparedAcquisition {
+  method: string | null;
+  year: number | null;
+  creditLine: string | null;
+}
+
+export interface ArtworkComparison {
+  artworks: Array<{
+    objectNumber: string;
+    title: string;
+    principalOrFirstMaker: string;
+    webImage: string | null;
+  }>;
+  makers: FieldComparison<string[]>;
+  dating: FieldComparison<ComparedDating> & {
+    earliestYear: number | null;
+    latestYear: number | null;
+    spanYears: number | null;
+    overlapping: boolean;          // Whether all dating ranges share at least one year
+  };
+  objectTypes: FieldComparison<string[]>;
+  materials: FieldComparison<string[]>;
+  techniques: FieldComparison<string[]>;
+  dimensions: FieldComparison<string[]>;
+  colors: FieldComparison<PaletteColor[]> & {
+    distances: Array<{ from: string; to: string; distance: number }>;
+  };
+  iconclass: FieldComparison<string[]>;
+  acquisition: FieldComparison<ComparedAcquisition>;
+}
+
+export interface LocalSearchArguments {
+  query?: string;
+  culture?: 'nl' | 'en';
+  yearFrom?: number;
+  yearTo?: number;
+  hasImage?: boolean;
+  limit?: number;
+  offset?: number;
+}
+
+export interface LocalSearchHit {
+  objectNumber: string;
+  culture: 'nl' | 'en';
+  title: string;
+  maker: string;
+  date: string | null;
+  score: number;
+  matchedFields: string[];
+  snippet: string | null;
+  webImage: string | null;
+}
+
+export interface LocalSearchResult {
+  query: string;
+  totalMatches: number;
+  indexedArtworks: number;
+  offset: number;
+  results: LocalSearchHit[];
+}
+
+export interface GetArtworkArguments {
+  objectNumber: string;
+  culture?: 'nl' | 'en';
+}
+
+export interface GetArtworkDetailsArguments extends Omit<GetArtworkArguments, 'culture'> {
+  culture?: 'nl' | 'en' | 'both';
+  includeImage?: boolean;
+  maxSize?: number;
+}
+
+export interface GetArtworkThumbnailArguments extends GetArtworkArguments {
+  maxSize?: number;
+}
+
+export interface ImageRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  unit?: 'pixels' | 'percent';  // Pixels are measured on the full-resolution (z0) image
+}
+
+export interface GetArtworkRegionArguments {
+  objectNumber: string;
+  culture?: 'nl' | 'en';
+  level?: string;
+  region?: ImageRegion;
+  maxSize?: number;
+}
+
+export interface GetArtistTimelineArguments {
+  artist: string;
+  maxWorks?: number;
+  page?: number;
+  culture?: 'nl' | 'en';
+  imagesOnly?: boolean;
+  resolveArtist?: boolean;
+}
+
+export interface ResolveArtistArguments {
+  name: string;
+  limit?: number;
+  culture?: 'nl' | 'en';
+}
+
+export interface ArtistCandidate {
+  name: string;                  // Exact maker name to pass as involvedMaker
+  similarity: number;            // 0..1, how closely the name matches the input
+  match: 'exact' | 'tokens' | 'prefix' | 'fuzzy';
+  workCount: number;
+  dateOfBirth: string | null;
+  dateOfDeath: string | null;
+  placeOfBirth: string | null;
+  nationality: string | null;
+  occupation: string[];
+}
+
+export interface ArtistResolution {
+  query: string;
+  candidates: ArtistCandidate[];
+}
+
+export interface ResolvedMaker {
+  input: string;
+  name: string;
+}
+
+export interface ArtistTimeline {
+  artist: string;
+  resolvedFrom?: string;
+  maker: TimelineMaker | null;
+  career: { firstYear: number; lastYear: number } | null;
+  phases: TimelinePhase[];
+  totalWorks: number;
+  page: number;
+  pageSize: number;
+  hasMore: boolean;
+  works: TimelineArtwork[];
 }
 
 export interface ArtworkDetails {
@@ -153,6 +577,8 @@ export interface ArtworkDetails {
     };
     classification: {
       iconClassIdentifier: string[];
+      iconClassDescription?: string[];
+      subjects?: IconclassSubject[];   // Added by this server: the codes above with their labels
     };
     hasImage: boolean;
     historicalPersons: string[];
@@ -167,6 +593,7 @@ export interface ArtworkDetails {
       part: string | null;
       value: string;
     }>;
+    measurements?: ArtworkMeasurements;   // Added by this server: the dimensions above as metric numbers
     physicalProperties: string[];
     physicalMedium: string;
     longTitle: string;
@@ -305,4 +732,56 @@ export interface GetUserSetDetailsArguments {
   culture?: 'nl' | 'en';
   page?: number;
   pageSize?: number;
+}
+
+export type UserSetItem = UserSetDetails['userSet']['setItems'][number];
+
+/**
+ * An artwork in a personal collection. Shaped like a Rijksstudio set item,
+ * plus the title and maker at the time it was added and the user's notes and tags.
+ */
+export interface LocalCollectionItem extends Omit<UserSetItem, 'image'> {
+  image: UserSetItem['image'] | null;   // Artworks without a web image have none
+  title: string;
+  principalOrFirstMaker: string;
+  notes: string | null;
+  tags: string[];
+  addedOn: string;
+}
+
+/**
+ * A personal collection kept by this server, shaped like a Rijksstudio user set
+ * so either can be read the same way. Links point to the art:// resource.
+ */
+export interface LocalCollection extends Omit<UserSetDetails['userSet'], 'links' | 'setItems'> {
+  links: {
+    overview: string;
+    web: string | null;   // Local collections have no page on the museum website
+  };
+  setItems: LocalCollectionItem[];
+}
+
+export type LocalCollectionSummary = Omit<LocalCollection, 'setItems'>;
+
+export interface CreateCollectionArguments {
+  name: string;
+  description?: string;
+}
+
+export interface AddToCollectionArguments {
+  collection: string;
+  objectNumbers: string[];
+  notes?: string;
+  tags?: string[];
+  culture?: 'nl' | 'en';
+}
+
+export interface RemoveFromCollectionArguments {
+  collection: string;
+  objectNumbers: string[];
+}
+
+export interface GetCollectionArguments {
+  collection: string;
+  tag?: string;
 } 
\ No newline at end of file
@@ -0,0 +1,9 @@
+export const MUSEUM_SITE = 'https://www.rijksmuseum.nl';
+
+/**
+ * The artwork's public page on the museum website, which the API does not
+ * return with the object details.
+ */
+export function collectionPageUrl(objectNumber: string, culture: 'nl' | 'en'): string {
+  return `${MUSEUM_SITE}/${culture}/collection/${encodeURIComponent(objectNumber)}`;
+} 
\ No newline at end of file
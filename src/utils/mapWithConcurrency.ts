@@ -0,0 +1,16 @@
+/**
+ * Maps items through an async worker with at most `limit` calls in flight,
+ * keeping results in input order. Rejects as soon as any call rejects.
+ */
+export async function mapWithConcurrency<T, R>(items: T[], limit: number, worker: (item: T, index: number) => Promise<R>): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  const run = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await worker(items[index], index);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, run));
+  return results;
+} 
\ No newline at end of file